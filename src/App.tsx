@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 
 // Components
@@ -11,27 +11,71 @@ import DocumentOrdering from '@/components/steps/DocumentOrdering'
 import PacketGeneration from '@/components/steps/PacketGeneration'
 import ThemeProvider from '@/components/ThemeProvider'
 import AdminPanel from '@/components/AdminPanel'
+import MyProjects from '@/components/MyProjects'
+import LoginForm from '@/components/LoginForm'
 
 // Types
-import type { AppState, ProjectFormData, SelectedDocument } from '@/types'
+import type { AppState, ProjectFormData, SelectedDocument, PacketOptions, Project } from '@/types'
 
 // Utils
 import { storage } from '@/utils/appStateStorage'
+import { pdfService } from '@/services/pdfService'
+import { authService } from '@/services/authService'
+import { DEFAULT_PACKET_LAYOUT } from '@/services/packetBuilder'
 
 const STORAGE_KEY = 'pdf-packet-builder-state'
 
+const defaultPacketOptions = (): PacketOptions => ({
+  engine: pdfService.defaultEngine,
+  ...DEFAULT_PACKET_LAYOUT,
+})
+
+// Saved options may predate newer settings, so merge them over the defaults
+const restorePacketOptions = (saved?: Partial<PacketOptions>): PacketOptions => {
+  const defaults = defaultPacketOptions()
+  return { ...defaults, ...saved, stamp: { ...defaults.stamp, ...saved?.stamp } }
+}
+
 function App() {
+  const navigate = useNavigate()
   const [appState, setAppState] = useState<AppState>(() => {
     const savedState = storage.get<AppState>(STORAGE_KEY)
     return {
       currentStep: savedState?.currentStep || 1,
       formData: savedState?.formData || {},
       selectedDocuments: savedState?.selectedDocuments || [],
+      packetOptions: restorePacketOptions(savedState?.packetOptions),
+      projectId: savedState?.projectId,
       isGenerating: false,
       darkMode: savedState?.darkMode || false,
     }
   })
 
+  // Document files are private, so the wizard needs a signed-in user to
+  // preview, search and combine them
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [checkingAuth, setCheckingAuth] = useState(true)
+
+  useEffect(() => {
+    let mounted = true
+
+    authService.isAuthenticated().then(isAuth => {
+      if (mounted) {
+        setIsAuthenticated(isAuth)
+        setCheckingAuth(false)
+      }
+    })
+
+    const unsub = authService.onAuthStateChange((isAuth) => {
+      if (mounted) setIsAuthenticated(isAuth)
+    })
+
+    return () => {
+      mounted = false
+      unsub()
+    }
+  }, [])
+
   // Save state to localStorage whenever it changes
   useEffect(() => {
     storage.set(STORAGE_KEY, appState)
@@ -45,12 +89,16 @@ function App() {
     }))
   }, [])
 
-  // Update product type
+  // Update product type; documents and sizes belong to a product, so switching resets them
   const updateProductType = useCallback((productType: ProjectFormData['productType']) => {
-    setAppState(prev => ({
-      ...prev,
-      formData: { ...prev.formData, productType }
-    }))
+    setAppState(prev => {
+      if (prev.formData.productType === productType) return prev
+      return {
+        ...prev,
+        formData: { ...prev.formData, productType, productSize: undefined },
+        selectedDocuments: [],
+      }
+    })
   }, [])
 
   // Update selected documents with useCallback
@@ -61,6 +109,35 @@ function App() {
     }))
   }, [])
 
+  // Update packet generation options
+  const updatePacketOptions = useCallback((options: Partial<PacketOptions>) => {
+    setAppState(prev => ({
+      ...prev,
+      packetOptions: { ...prev.packetOptions, ...options }
+    }))
+  }, [])
+
+  // Remember which saved project the wizard is editing
+  const updateProjectId = useCallback((projectId: string) => {
+    setAppState(prev => ({
+      ...prev,
+      projectId
+    }))
+  }, [])
+
+  // Load a saved project into the wizard
+  const openProject = useCallback((project: Project, selectedDocuments: SelectedDocument[], step: number) => {
+    setAppState(prev => ({
+      ...prev,
+      currentStep: step,
+      formData: project.formData,
+      selectedDocuments,
+      packetOptions: project.packetOptions ? restorePacketOptions(project.packetOptions) : prev.packetOptions,
+      projectId: project.id,
+    }))
+    navigate('/')
+  }, [navigate])
+
   // Navigate to step
   const goToStep = (step: number) => {
     setAppState(prev => ({
@@ -107,6 +184,8 @@ function App() {
       currentStep: 1,
       formData: {},
       selectedDocuments: [],
+      packetOptions: appState.packetOptions, // Preserve generation preferences
+      projectId: undefined,
       isGenerating: false,
       darkMode: appState.darkMode, // Preserve dark mode preference
     })
@@ -130,6 +209,20 @@ function App() {
             element={<AdminPanel />}
           />
           
+          {/* Saved Projects Route */}
+          <Route
+            path="/projects"
+            element={
+              <Layout
+                darkMode={appState.darkMode}
+                onToggleDarkMode={toggleDarkMode}
+                onReset={resetApp}
+              >
+                <MyProjects currentProjectId={appState.projectId} onOpenProject={openProject} />
+              </Layout>
+            }
+          />
+
           {/* Main App Route */}
           <Route
             path="/"
@@ -173,83 +266,98 @@ function App() {
                     </div>
                   </motion.div>
 
-                  {/* Step Wizard */}
-                  <StepWizard
-                    currentStep={appState.currentStep}
-                    onStepClick={goToStep}
-                    formData={appState.formData}
-                    selectedDocuments={appState.selectedDocuments}
-                  />
+                  {checkingAuth ? null : !isAuthenticated ? (
+                    <div className="flex justify-center">
+                      <LoginForm
+                        title="Sign in to build a packet"
+                        description="Document files are private, so previewing them and generating packets requires an account."
+                      />
+                    </div>
+                  ) : (
+                    <>
+                      {/* Step Wizard */}
+                      <StepWizard
+                        currentStep={appState.currentStep}
+                        onStepClick={goToStep}
+                        formData={appState.formData}
+                        selectedDocuments={appState.selectedDocuments}
+                      />
 
-                  {/* Main Content */}
-                  <motion.div
-                    key={appState.currentStep}
-                    initial={{ opacity: 0, x: 20 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    exit={{ opacity: 0, x: -20 }}
-                    transition={{ duration: 0.4 }}
-                    className="mt-12"
-                  >
-                    <AnimatePresence mode="wait">
-                      {(() => {
-                        const StepComponent = stepComponents[appState.currentStep as keyof typeof stepComponents]
+                      {/* Main Content */}
+                      <motion.div
+                        key={appState.currentStep}
+                        initial={{ opacity: 0, x: 20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -20 }}
+                        transition={{ duration: 0.4 }}
+                        className="mt-12"
+                      >
+                        <AnimatePresence mode="wait">
+                          {(() => {
+                            const StepComponent = stepComponents[appState.currentStep as keyof typeof stepComponents]
                         
-                        if (!StepComponent) {
-                          return <Navigate to="/" replace />
-                        }
-
-                        // Handle different props for different steps
-                        if (appState.currentStep === 1) {
-                          const ProductSelectionComponent = StepComponent as typeof ProductSelection;
-                          return (
-                            <ProductSelectionComponent
-                              productType={appState.formData.productType}
-                              onUpdateProductType={updateProductType}
-                              onNext={nextStep}
-                            />
-                          )
-                        }
+                            if (!StepComponent) {
+                              return <Navigate to="/" replace />
+                            }
+
+                            // Handle different props for different steps
+                            if (appState.currentStep === 1) {
+                              const ProductSelectionComponent = StepComponent as typeof ProductSelection;
+                              return (
+                                <ProductSelectionComponent
+                                  productType={appState.formData.productType}
+                                  onUpdateProductType={updateProductType}
+                                  onNext={nextStep}
+                                />
+                              )
+                            }
                         
-                        if (appState.currentStep === 2) {
-                          const ProjectFormComponent = StepComponent as typeof ProjectForm;
-                          return (
-                            <ProjectFormComponent
-                              formData={appState.formData}
-                              onUpdateFormData={updateFormData}
-                              onNext={nextStep}
-                              onPrevious={prevStep}
-                            />
-                          )
-                        }
+                            if (appState.currentStep === 2) {
+                              const ProjectFormComponent = StepComponent as typeof ProjectForm;
+                              return (
+                                <ProjectFormComponent
+                                  formData={appState.formData}
+                                  onUpdateFormData={updateFormData}
+                                  onNext={nextStep}
+                                  onPrevious={prevStep}
+                                />
+                              )
+                            }
                         
-                        const OtherStepComponent = StepComponent as any;
-                        return (
-                          <OtherStepComponent
-                            formData={appState.formData}
-                            selectedDocuments={appState.selectedDocuments}
-                            onUpdateFormData={updateFormData}
-                            onUpdateSelectedDocuments={updateSelectedDocuments}
-                            onNext={nextStep}
-                            onPrevious={prevStep}
-                            isGenerating={appState.isGenerating}
-                            onSetGenerating={setIsGenerating}
-                          />
-                        )
-                      })()}
-                    </AnimatePresence>
-                  </motion.div>
+                            const OtherStepComponent = StepComponent as any;
+                            return (
+                              <OtherStepComponent
+                                formData={appState.formData}
+                                selectedDocuments={appState.selectedDocuments}
+                                onUpdateFormData={updateFormData}
+                                onUpdateSelectedDocuments={updateSelectedDocuments}
+                                packetOptions={appState.packetOptions}
+                                onUpdatePacketOptions={updatePacketOptions}
+                                projectId={appState.projectId}
+                                onProjectSaved={updateProjectId}
+                                onNext={nextStep}
+                                onPrevious={prevStep}
+                                isGenerating={appState.isGenerating}
+                                onSetGenerating={setIsGenerating}
+                              />
+                            )
+                          })()}
+                        </AnimatePresence>
+                      </motion.div>
 
-                  {/* Progress Indicator */}
-                  <motion.div
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    transition={{ delay: 0.8, duration: 0.4 }}
-                    className="fixed bottom-6 right-6 z-50"
-                  >
-                    <div className="glass-card dark:glass-card-dark p-4 text-sm font-medium text-gray-700 dark:text-gray-300">
-                      Step {appState.currentStep} of 4
-                    </div>
-                  </motion.div>
+                      {/* Progress Indicator */}
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.8, duration: 0.4 }}
+                        className="fixed bottom-6 right-6 z-50"
+                      >
+                        <div className="glass-card dark:glass-card-dark p-4 text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Step {appState.currentStep} of 4
+                        </div>
+                      </motion.div>
+                    </>
+                  )}
                 </div>
               </Layout>
             }
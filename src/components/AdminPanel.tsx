@@ -1,37 +1,64 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
-  Upload,
   Trash2,
   Edit2,
   Save,
   X,
   FileText,
   Lock,
-  Unlock,
-  Eye,
-  EyeOff,
-  FolderOpen
+  FolderOpen,
+  History
 } from 'lucide-react'
 import { documentService } from '@/services/documentService'
+import { productService } from '@/services/productService'
+import { submittalCategoryService } from '@/services/submittalCategoryService'
+import { templateService } from '@/services/templateService'
+import { documentRuleService } from '@/services/documentRuleService'
+import { typePriorityService } from '@/services/typePriorityService'
 import { authService } from '@/services/authService'
-import type { Document, DocumentType, ProductType } from '@/types'
+import LoginForm from '@/components/LoginForm'
+import ProductManager from '@/components/admin/ProductManager'
+import SubmittalCategoryManager from '@/components/admin/SubmittalCategoryManager'
+import TemplateManager from '@/components/admin/TemplateManager'
+import DocumentRuleManager from '@/components/admin/DocumentRuleManager'
+import TypePriorityManager from '@/components/admin/TypePriorityManager'
+import DocumentVersionHistory from '@/components/admin/DocumentVersionHistory'
+import ExpiryDashboard from '@/components/admin/ExpiryDashboard'
+import BulkImport from '@/components/admin/BulkImport'
+import UserManager from '@/components/admin/UserManager'
+import AuditLog from '@/components/admin/AuditLog'
+import { groupChecklist } from '@/utils/submittalChecklist'
+import { describeExpiry, formatDateOnly, getExpiryStatus } from '@/utils/documentExpiry'
+import { getDefaultTypePriorities } from '@/utils/autoArrange'
+import { documentTypeConfig } from '@/data/documents'
+import { hasPermission, ROLE_LABELS } from '@/utils/permissions'
+import type { Document, DocumentExpiryStatus, DocumentRule, DocumentType, PacketTemplate, Product, ProductType, SubmittalCategory, UserProfile } from '@/types'
 
 interface AdminPanelProps {
   onClose?: () => void
 }
 
-const ADMIN_EMAIL = 'admin@example.com'
+const CATEGORY_STYLES: Array<{ icon: string; color: CategoryColor }> = [
+  { icon: '🏗️', color: 'green' },
+  { icon: '📋', color: 'purple' },
+  { icon: '🧱', color: 'blue' },
+  { icon: '🏠', color: 'orange' },
+]
 
 export default function AdminPanel({ onClose }: AdminPanelProps) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => authService.isAuthenticated())
-  const [email, setEmail] = useState('')
-  const [password, setPassword] = useState('')
-  const [showPassword, setShowPassword] = useState(false)
+  const [profile, setProfile] = useState<UserProfile | null>(null)
   const [documents, setDocuments] = useState<Document[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [categories, setCategories] = useState<SubmittalCategory[]>([])
+  const [templates, setTemplates] = useState<PacketTemplate[]>([])
+  const [rules, setRules] = useState<DocumentRule[]>([])
+  const [typePriorities, setTypePriorities] = useState(getDefaultTypePriorities)
   const [loading, setLoading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState<number>(0)
-  const [selectedCategory, setSelectedCategory] = useState<ProductType>('structural-floor')
+  const [indexingProgress, setIndexingProgress] = useState<number | null>(null)
+  const [fingerprintProgress, setFingerprintProgress] = useState<number | null>(null)
+  const [selectedCategory, setSelectedCategory] = useState<ProductType>('')
   const [editingDoc, setEditingDoc] = useState<string | null>(null)
   const [editForm, setEditForm] = useState<Partial<Document>>({})
   const [error, setError] = useState<string | null>(null)
@@ -63,44 +90,92 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
 
   useEffect(() => {
     if (isAuthenticated) {
+      loadProfile()
       loadDocuments()
+      loadProducts()
+      loadCategories()
+      loadTemplates()
+      loadRules()
+      loadTypePriorities()
+    } else {
+      setProfile(null)
     }
   }, [isAuthenticated])
 
-  const loadDocuments = async () => {
+  const loadProfile = async () => {
     try {
-      setLoading(true)
-      const docs = await documentService.getAllDocuments()
-      setDocuments(docs)
+      setProfile(await authService.getProfile())
     } catch (err) {
-      setError('Failed to load documents')
+      setError('Failed to load your role')
       console.error(err)
-    } finally {
-      setLoading(false)
     }
   }
 
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const loadTypePriorities = async () => {
     try {
-      setLoading(true)
-      setError(null)
+      setTypePriorities(await typePriorityService.getPriorities())
+    } catch (err) {
+      setError('Failed to load document type order')
+      console.error(err)
+    }
+  }
 
-      const loginEmail = email && email.trim() !== '' ? email.trim() : ADMIN_EMAIL
+  const loadRules = async () => {
+    try {
+      setRules(await documentRuleService.getAllRules())
+    } catch (err) {
+      setError('Failed to load document rules')
+      console.error(err)
+    }
+  }
 
-      const result = await authService.signInAdmin(loginEmail, password)
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await templateService.getTemplates())
+    } catch (err) {
+      setError('Failed to load packet templates')
+      console.error(err)
+    }
+  }
 
-      if (result?.user) {
-        setPassword('')
-        setEmail('')
-        setError(null)
-      } else {
-        setError('Authentication failed')
-      }
-    } catch (err: any) {
-      console.error('Authentication failed:', err)
-      const msg = err?.message || 'Authentication failed'
-      setError(msg)
+  const loadCategories = async () => {
+    try {
+      setCategories(await submittalCategoryService.getAllCategories())
+    } catch (err) {
+      setError('Failed to load submittal categories')
+      console.error(err)
+    }
+  }
+
+  // Deleting a category also removes its tags, so refresh both
+  const handleCategoriesChanged = async () => {
+    await Promise.all([loadCategories(), loadDocuments()])
+  }
+
+  const loadProducts = async () => {
+    try {
+      const loaded = await productService.getAllProducts()
+      setProducts(loaded)
+      setSelectedCategory(current => current || loaded[0]?.id || '')
+    } catch (err) {
+      setError('Failed to load products')
+      console.error(err)
+    }
+  }
+
+  // Deleting a product also deletes its templates
+  const handleProductsChanged = async () => {
+    await Promise.all([loadProducts(), loadTemplates()])
+  }
+
+  const loadDocuments = async () => {
+    try {
+      setLoading(true)
+      const docs = await documentService.getAllDocuments()
+      setDocuments(docs)
+    } catch (err) {
+      setError('Failed to load documents')
+      console.error(err)
     } finally {
       setLoading(false)
     }
@@ -110,8 +185,6 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     try {
       setLoading(true)
       await authService.signOut()
-      setPassword('')
-      setEmail('')
     } catch (err) {
       console.error('Sign out error:', err)
       setError('Failed to logout')
@@ -120,67 +193,64 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     }
   }
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (!files || files.length === 0) return
+  // Extract text from documents uploaded before content search existed
+  const handleIndexDocuments = async () => {
+    const pending = documents.filter(doc => !doc.textIndexedAt)
+    if (pending.length === 0) return
 
-    setLoading(true)
-    setUploadProgress(0)
     setError(null)
     setSuccess(null)
+    setIndexingProgress(0)
 
-    const results = {
-      successful: 0,
-      failed: 0,
-      errors: [] as string[]
+    const failed: string[] = []
+    for (let i = 0; i < pending.length; i++) {
+      try {
+        await documentService.reindexDocumentText(pending[i])
+      } catch (err) {
+        failed.push(pending[i].name)
+        console.error(`Failed to index ${pending[i].name}:`, err)
+      }
+      setIndexingProgress(Math.round((i + 1) / pending.length * 100))
     }
 
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i]
-
-        try {
-          await documentService.uploadDocument(file, selectedCategory, (progress) => {
-            setUploadProgress(Math.round((i + progress / 100) / files.length * 100))
-          })
-          results.successful++
-        } catch (fileError) {
-          results.failed++
-          const errorMsg = fileError instanceof Error ? fileError.message : 'Unknown error'
-          results.errors.push(`${file.name}: ${errorMsg}`)
-          console.error(`Failed to upload ${file.name}:`, fileError)
-        }
-      }
+    setIndexingProgress(null)
+    if (failed.length > 0) {
+      setError(`Failed to index ${failed.length} document(s):\n${failed.join('\n')}`)
+    }
+    if (failed.length < pending.length) {
+      setSuccess(`Indexed the text of ${pending.length - failed.length} document(s)`)
+    }
+    await loadDocuments()
+  }
 
-      if (results.successful > 0) {
-        setSuccess(
-          `Successfully uploaded ${results.successful} document(s) to ${
-            selectedCategory === 'structural-floor' ? 'Structural Floor' : 'Underlayment'
-          }`
-        )
-      }
+  // Fingerprint documents uploaded before duplicate detection existed
+  const handleFingerprintDocuments = async () => {
+    const pending = documents.filter(doc => !doc.contentHash && doc.storagePath)
+    if (pending.length === 0) return
 
-      if (results.failed > 0) {
-        setError(`Failed to upload ${results.failed} file(s):\n${results.errors.join('\n')}`)
-      }
+    setError(null)
+    setSuccess(null)
+    setFingerprintProgress(0)
 
-      if (results.successful > 0) {
-        await loadDocuments()
+    const failed: string[] = []
+    for (let i = 0; i < pending.length; i++) {
+      try {
+        await documentService.fingerprintDocument(pending[i])
+      } catch (err) {
+        failed.push(pending[i].name)
+        console.error(`Failed to fingerprint ${pending[i].name}:`, err)
       }
+      setFingerprintProgress(Math.round((i + 1) / pending.length * 100))
+    }
 
-      e.target.value = ''
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Upload failed')
-      console.error(err)
-    } finally {
-      setLoading(false)
-      setUploadProgress(0)
-
-      setTimeout(() => {
-        setSuccess(null)
-        setError(null)
-      }, 5000)
+    setFingerprintProgress(null)
+    if (failed.length > 0) {
+      setError(`Failed to fingerprint ${failed.length} document(s):\n${failed.join('\n')}`)
+    }
+    if (failed.length < pending.length) {
+      setSuccess(`Fingerprinted ${pending.length - failed.length} document(s)`)
     }
+    await loadDocuments()
   }
 
   const handleDeleteDocument = async (docId: string) => {
@@ -190,7 +260,8 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
       setLoading(true)
       await documentService.deleteDocument(docId)
       setSuccess('Document deleted successfully')
-      await loadDocuments()
+      // The document's rules are deleted with it
+      await Promise.all([loadDocuments(), loadRules()])
     } catch (err) {
       setError('Failed to delete document')
       console.error(err)
@@ -205,6 +276,12 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     setEditForm(doc)
   }
 
+  // Opened from the expiry dashboard, so bring the document's row into view
+  const handleEditFromDashboard = (doc: Document) => {
+    handleEditDocument(doc)
+    document.getElementById(`document-${doc.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
   const handleSaveEdit = async () => {
     if (!editingDoc || !editForm) return
 
@@ -213,11 +290,16 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
       return
     }
 
-    if (!editForm.type) {
+    if (!editForm.docType) {
       setError('Document type is required')
       return
     }
 
+    if (editForm.effectiveDate && editForm.expirationDate && editForm.expirationDate < editForm.effectiveDate) {
+      setError('Expiration date must be on or after the effective date')
+      return
+    }
+
     try {
       setLoading(true)
       setError(null)
@@ -243,89 +325,27 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     setEditForm({})
   }
 
-  // Filter documents by category
-  const structuralFloorDocs = documents.filter((doc) => doc.productType === 'structural-floor')
-  const underlaymentDocs = documents.filter((doc) => doc.productType === 'underlayment')
+  const unfingerprinted = documents.filter(doc => !doc.contentHash && doc.storagePath)
+
+  // Library documents sharing the same file contents
+  const duplicateGroups = Object.values(
+    documents.reduce<Record<string, Document[]>>((groups, doc) => {
+      if (doc.contentHash) (groups[doc.contentHash] ||= []).push(doc)
+      return groups
+    }, {})
+  ).filter(group => group.length > 1)
 
   // Login Screen
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center p-4">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="glass-card dark:glass-card-dark p-8 max-w-md w-full"
-        >
-          <div className="flex items-center justify-center mb-6">
-            <Lock className="w-12 h-12 text-blue-500" />
-          </div>
-          <h1 className="text-2xl font-bold text-center mb-6 text-gray-900 dark:text-white">
-            Admin Access
-          </h1>
-
-          {error && (
-            <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-lg text-sm">
-              {error}
-            </div>
-          )}
-
-          <form onSubmit={handleLogin}>
-            <div className="mb-4">
-              <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
-                Email (optional)
-              </label>
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white mb-3"
-                placeholder={ADMIN_EMAIL}
-              />
-
-              <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
-                Password
-              </label>
-              <div className="relative">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
-                  placeholder="Enter admin password"
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-                >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
-              </div>
-            </div>
-
-            <button
-              type="submit"
-              className="w-full bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-            >
-              <Unlock className="inline-block w-5 h-5 mr-2" />
-              Login
-            </button>
-          </form>
-
-          {onClose && (
-            <button
-              onClick={onClose}
-              className="w-full mt-4 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 font-medium py-2"
-            >
-              Back to App
-            </button>
-          )}
-        </motion.div>
+        <LoginForm title="Admin Access" onClose={onClose} />
       </div>
     )
   }
 
+  const canManageLibrary = hasPermission(profile?.role, 'manageLibrary')
+
   // Admin Dashboard
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-4">
@@ -336,7 +356,12 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Document Management</h1>
             <p className="text-gray-600 dark:text-gray-400">Upload and manage PDF documents by category</p>
           </div>
-          <div className="flex gap-3">
+          <div className="flex items-center gap-3">
+            {profile && (
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {profile.email} · {ROLE_LABELS[profile.role]}
+              </span>
+            )}
             <button onClick={handleLogout} className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200">
               <Lock className="inline-block w-5 h-5 mr-2" />
               Logout
@@ -374,95 +399,202 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
           )}
         </AnimatePresence>
 
-        {/* Upload Section */}
-        <div className="glass-card dark:glass-card-dark p-6 mb-8">
-          <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Upload Documents</h2>
-
-          {/* Category Selector */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Select Category</label>
-            <select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value as ProductType)}
-              className="w-full max-w-xs px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
-            >
-              <option value="structural-floor">Structural Floor</option>
-              <option value="underlayment">Underlayment</option>
-            </select>
-            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Documents will be uploaded to the selected category</p>
+        {profile && !canManageLibrary && (
+          <div className="mb-8 p-4 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 rounded-lg text-sm">
+            Your role ({ROLE_LABELS[profile.role]}) can view the library but not change it. Ask an owner if you need more access.
           </div>
+        )}
+
+        {/* Users */}
+        {profile && hasPermission(profile.role, 'manageRoles') && (
+          <UserManager currentUserId={profile.id} onError={setError} onSuccess={setSuccess} />
+        )}
+
+        {/* Upload Section */}
+        {canManageLibrary && (
+          <div className="glass-card dark:glass-card-dark p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Upload Documents</h2>
+
+            {/* Category Selector */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Select Category</label>
+              <select
+                value={selectedCategory}
+                onChange={(e) => setSelectedCategory(e.target.value as ProductType)}
+                className="w-full max-w-xs px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+              >
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">New files are added to this category; it can be changed per file before uploading</p>
+            </div>
 
-          <div className="flex items-center gap-4">
-            <label className="flex-1">
-              <input type="file" accept="application/pdf" multiple onChange={handleFileUpload} disabled={loading} className="hidden" />
-              <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center hover:border-blue-500 dark:hover:border-blue-400 transition-colors cursor-pointer">
-                <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
-                <p className="text-gray-600 dark:text-gray-400 mb-2">Click to upload PDF documents</p>
-                <p className="text-sm text-gray-500 dark:text-gray-500">
-                  Will be added to: <strong>{selectedCategory === 'structural-floor' ? 'Structural Floor' : 'Underlayment'}</strong>
-                </p>
+            <BulkImport
+              products={products}
+              productType={selectedCategory}
+              onImported={loadDocuments}
+              onError={setError}
+              onSuccess={setSuccess}
+            />
+
+            {documents.some(doc => !doc.textIndexedAt) && (
+              <div className="mt-4 flex items-center justify-between gap-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+                <span>
+                  {documents.filter(doc => !doc.textIndexedAt).length} document(s) are not yet searchable by their content.
+                </span>
+                <button
+                  onClick={handleIndexDocuments}
+                  disabled={indexingProgress !== null}
+                  className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white rounded-lg transition-colors whitespace-nowrap"
+                >
+                  {indexingProgress !== null ? `Indexing ${indexingProgress}%` : 'Index Text'}
+                </button>
               </div>
-            </label>
-          </div>
+            )}
 
-          {uploadProgress > 0 && (
-            <div className="mt-4">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm text-gray-600 dark:text-gray-400">Uploading...</span>
-                <span className="text-sm font-medium text-gray-900 dark:text-white">{uploadProgress}%</span>
+            {unfingerprinted.length > 0 && (
+              <div className="mt-4 flex items-center justify-between gap-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+                <span>
+                  {unfingerprinted.length} document(s) were uploaded before duplicate detection and can't be matched against new uploads yet.
+                </span>
+                <button
+                  onClick={handleFingerprintDocuments}
+                  disabled={fingerprintProgress !== null}
+                  className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white rounded-lg transition-colors whitespace-nowrap"
+                >
+                  {fingerprintProgress !== null ? `Fingerprinting ${fingerprintProgress}%` : 'Fingerprint'}
+                </button>
               </div>
-              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${uploadProgress}%` }} />
+            )}
+
+            {duplicateGroups.length > 0 && (
+              <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg text-sm text-yellow-800 dark:text-yellow-200">
+                <p className="font-medium mb-1">The library holds {duplicateGroups.length} file(s) more than once:</p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {duplicateGroups.map(group => (
+                    <li key={group[0].contentHash}>
+                      {group.map(doc => `${doc.name} (${products.find(product => product.id === doc.productType)?.name || doc.productType})`).join(', ')}
+                    </li>
+                  ))}
+                </ul>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
+
+        {/* Expiry */}
+        <ExpiryDashboard
+          documents={documents}
+          products={products}
+          onEdit={canManageLibrary ? handleEditFromDashboard : undefined}
+        />
+
+        {/* Products */}
+        <ProductManager
+          products={products}
+          documents={documents}
+          loading={loading}
+          onChanged={handleProductsChanged}
+          onError={setError}
+          onSuccess={setSuccess}
+          readOnly={!canManageLibrary}
+        />
+
+        {/* Packet Templates */}
+        <TemplateManager
+          templates={templates}
+          products={products}
+          documents={documents}
+          loading={loading}
+          onChanged={loadTemplates}
+          onError={setError}
+          onSuccess={setSuccess}
+          readOnly={!hasPermission(profile?.role, 'manageTemplates')}
+        />
+
+        {/* Submittal Categories */}
+        <SubmittalCategoryManager
+          categories={categories}
+          documents={documents}
+          onChanged={handleCategoriesChanged}
+          onError={setError}
+          onSuccess={setSuccess}
+          readOnly={!canManageLibrary}
+        />
+
+        {/* Document Rules */}
+        <DocumentRuleManager
+          rules={rules}
+          documents={documents}
+          products={products}
+          onChanged={loadRules}
+          onError={setError}
+          onSuccess={setSuccess}
+          readOnly={!canManageLibrary}
+        />
+
+        {/* Auto-arrange Order */}
+        <TypePriorityManager
+          priorities={typePriorities}
+          onChanged={loadTypePriorities}
+          onError={setError}
+          onSuccess={setSuccess}
+          readOnly={!canManageLibrary}
+        />
+
+        {/* Audit Log */}
+        {hasPermission(profile?.role, 'viewAuditLog') && <AuditLog onError={setError} />}
 
         {/* Documents by Category */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Structural Floor Documents */}
-          <DocumentCategory
-            title="Structural Floor Documents"
-            icon="🏗️"
-            color="green"
-            documents={structuralFloorDocs}
-            loading={loading}
-            editingDoc={editingDoc}
-            editForm={editForm}
-            onEdit={handleEditDocument}
-            onSave={handleSaveEdit}
-            onCancel={handleCancelEdit}
-            onDelete={handleDeleteDocument}
-            onEditFormChange={setEditForm}
-          />
-
-          {/* Underlayment Documents */}
-          <DocumentCategory
-            title="Underlayment Documents"
-            icon="📋"
-            color="purple"
-            documents={underlaymentDocs}
-            loading={loading}
-            editingDoc={editingDoc}
-            editForm={editForm}
-            onEdit={handleEditDocument}
-            onSave={handleSaveEdit}
-            onCancel={handleCancelEdit}
-            onDelete={handleDeleteDocument}
-            onEditFormChange={setEditForm}
-          />
+          {products.map((product, index) => {
+            const style = CATEGORY_STYLES[index % CATEGORY_STYLES.length]
+            return (
+              <DocumentCategory
+                key={product.id}
+                title={`${product.name} Documents`}
+                icon={style.icon}
+                color={style.color}
+                documents={documents.filter((doc) => doc.productType === product.id)}
+                categories={categories}
+                loading={loading}
+                editingDoc={editingDoc}
+                editForm={editForm}
+                onEdit={handleEditDocument}
+                onSave={handleSaveEdit}
+                onCancel={handleCancelEdit}
+                onDelete={handleDeleteDocument}
+                onEditFormChange={setEditForm}
+                onVersionUploaded={loadDocuments}
+                onError={setError}
+                onSuccess={setSuccess}
+                readOnly={!canManageLibrary}
+              />
+            )
+          })}
         </div>
       </div>
     </div>
   )
 }
 
-// Document Category Component (unchanged)
+// Document Category Component
+type CategoryColor = 'green' | 'purple' | 'blue' | 'orange'
+
+const EXPIRY_BADGE_CLASSES: Record<DocumentExpiryStatus, string> = {
+  none: '',
+  valid: '',
+  expiring: 'px-2 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded',
+  expired: 'px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded',
+}
+
 interface DocumentCategoryProps {
   title: string
   icon: string
-  color: 'green' | 'purple'
+  color: CategoryColor
   documents: Document[]
+  categories: SubmittalCategory[]
   loading: boolean
   editingDoc: string | null
   editForm: Partial<Document>
@@ -471,6 +603,10 @@ interface DocumentCategoryProps {
   onCancel: () => void
   onDelete: (id: string) => void
   onEditFormChange: (form: Partial<Document>) => void
+  onVersionUploaded: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly: boolean
 }
 
 function DocumentCategory({
@@ -478,6 +614,7 @@ function DocumentCategory({
   icon,
   color,
   documents,
+  categories,
   loading,
   editingDoc,
   editForm,
@@ -485,8 +622,14 @@ function DocumentCategory({
   onSave,
   onCancel,
   onDelete,
-  onEditFormChange
+  onEditFormChange,
+  onVersionUploaded,
+  onError,
+  onSuccess,
+  readOnly
 }: DocumentCategoryProps) {
+  const [historyDoc, setHistoryDoc] = useState<string | null>(null)
+
   const colorClasses = {
     green: {
       bg: 'bg-green-100 dark:bg-green-900/30',
@@ -497,11 +640,37 @@ function DocumentCategory({
       bg: 'bg-purple-100 dark:bg-purple-900/30',
       text: 'text-purple-700 dark:text-purple-300',
       border: 'border-purple-300 dark:border-purple-700'
+    },
+    blue: {
+      bg: 'bg-blue-100 dark:bg-blue-900/30',
+      text: 'text-blue-700 dark:text-blue-300',
+      border: 'border-blue-300 dark:border-blue-700'
+    },
+    orange: {
+      bg: 'bg-orange-100 dark:bg-orange-900/30',
+      text: 'text-orange-700 dark:text-orange-300',
+      border: 'border-orange-300 dark:border-orange-700'
     }
   }
 
   const colors = colorClasses[color]
 
+  const toggleCategory = (categoryId: string) => {
+    const current = editForm.submittalCategoryIds || []
+    onEditFormChange({
+      ...editForm,
+      submittalCategoryIds: current.includes(categoryId)
+        ? current.filter(id => id !== categoryId)
+        : [...current, categoryId],
+    })
+  }
+
+  const categoryLabel = (categoryId: string) => {
+    const category = categories.find(c => c.id === categoryId)
+    if (!category) return null
+    return category.group ? `${category.group} ${category.label}` : category.label
+  }
+
   return (
     <div className="glass-card dark:glass-card-dark p-6">
       <div className="flex items-center justify-between mb-6">
@@ -528,6 +697,7 @@ function DocumentCategory({
           {documents.map((doc) => (
             <motion.div
               key={doc.id}
+              id={`document-${doc.id}`}
               layout
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -550,21 +720,36 @@ function DocumentCategory({
                     <div>
                       <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Document Type</label>
                       <select
-                        value={editForm.type || ''}
-                        onChange={(e) => onEditFormChange({ ...editForm, type: e.target.value as DocumentType })}
+                        value={editForm.docType || ''}
+                        onChange={(e) => onEditFormChange({ ...editForm, docType: e.target.value as DocumentType })}
                         className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
                       >
-                        <option value="TDS">TDS</option>
-                        <option value="ESR">ESR</option>
-                        <option value="MSDS">MSDS</option>
-                        <option value="LEED">LEED</option>
-                        <option value="Installation">Installation</option>
-                        <option value="Warranty">Warranty</option>
-                        <option value="Acoustic">Acoustic</option>
-                        <option value="PartSpec">PartSpec</option>
+                        {(Object.keys(documentTypeConfig) as DocumentType[]).map(type => (
+                          <option key={type} value={type}>{documentTypeConfig[type].label}</option>
+                        ))}
                       </select>
                     </div>
                   </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Effective Date</label>
+                      <input
+                        type="date"
+                        value={editForm.effectiveDate || ''}
+                        onChange={(e) => onEditFormChange({ ...editForm, effectiveDate: e.target.value || null })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Expiration Date</label>
+                      <input
+                        type="date"
+                        value={editForm.expirationDate || ''}
+                        onChange={(e) => onEditFormChange({ ...editForm, expirationDate: e.target.value || null })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+                      />
+                    </div>
+                  </div>
                   <div>
                     <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Description</label>
                     <textarea
@@ -574,6 +759,38 @@ function DocumentCategory({
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Submittal Categories</label>
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {groupChecklist(categories).map(({ group, items }) => (
+                        <div key={group || items[0].id}>
+                          {group && <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">{group}</p>}
+                          <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {items.map(category => (
+                              <label key={category.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={(editForm.submittalCategoryIds || []).includes(category.id)}
+                                  onChange={() => toggleCategory(category.id)}
+                                  className="rounded border-gray-300"
+                                />
+                                {category.label}
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!editForm.required}
+                      onChange={(e) => onEditFormChange({ ...editForm, required: e.target.checked })}
+                      className="rounded border-gray-300"
+                    />
+                    Required in every packet and template for this product
+                  </label>
                   <div className="flex gap-2">
                     <button onClick={onSave} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors">
                       <Save className="inline-block w-4 h-4 mr-2" />
@@ -587,28 +804,74 @@ function DocumentCategory({
                 </div>
               ) : (
                 // View Mode
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start gap-4 flex-1">
-                    <FileText className="w-8 h-8 text-blue-500 flex-shrink-0 mt-1" />
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-gray-900 dark:text-white mb-1">{doc.name}</h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{doc.description}</p>
-                      <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-500">
-                        <span className={`px-2 py-1 ${colors.bg} ${colors.text} rounded`}>{doc.type}</span>
-                        <span>{(doc.size / 1024 / 1024).toFixed(2)} MB</span>
-                        <span className="truncate max-w-xs">{doc.filename}</span>
+                <>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start gap-4 flex-1">
+                      <FileText className="w-8 h-8 text-blue-500 flex-shrink-0 mt-1" />
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">{doc.name}</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{doc.description}</p>
+                        <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-500">
+                          <span className={`px-2 py-1 ${colors.bg} ${colors.text} rounded`}>{documentTypeConfig[doc.docType]?.label || doc.docType}</span>
+                          <span className="font-medium">v{doc.currentVersion}</span>
+                          {doc.required && (
+                            <span className="flex items-center gap-1 px-2 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded">
+                              <Lock className="w-3 h-3" />
+                              Required
+                            </span>
+                          )}
+                          <span>{(doc.size / 1024 / 1024).toFixed(2)} MB</span>
+                          <span className="truncate max-w-xs">{doc.filename}</span>
+                          {doc.expirationDate && (
+                            <span className={EXPIRY_BADGE_CLASSES[getExpiryStatus(doc)]} title={describeExpiry(doc)}>
+                              Expires {formatDateOnly(doc.expirationDate)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {doc.submittalCategoryIds.map(categoryLabel).filter(Boolean).map(label => (
+                            <span key={label} className="px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded">
+                              {label}
+                            </span>
+                          ))}
+                          {!doc.submittalCategoryIds.some(id => categoryLabel(id)) && (
+                            <span className="px-2 py-0.5 text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded">
+                              No submittal category
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setHistoryDoc(historyDoc === doc.id ? null : doc.id)}
+                        className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        title="Versions"
+                      >
+                        <History className="w-5 h-5" />
+                      </button>
+                      {!readOnly && (
+                        <>
+                          <button onClick={() => onEdit(doc)} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors">
+                            <Edit2 className="w-5 h-5" />
+                          </button>
+                          <button onClick={() => onDelete(doc.id)} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors">
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex gap-2">
-                    <button onClick={() => onEdit(doc)} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors">
-                      <Edit2 className="w-5 h-5" />
-                    </button>
-                    <button onClick={() => onDelete(doc.id)} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors">
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </div>
-                </div>
+                  {historyDoc === doc.id && (
+                    <DocumentVersionHistory
+                      document={doc}
+                      onVersionUploaded={onVersionUploaded}
+                      onError={onError}
+                      onSuccess={onSuccess}
+                      readOnly={readOnly}
+                    />
+                  )}
+                </>
               )}
             </motion.div>
           ))}
@@ -0,0 +1,259 @@
+import { useState, useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { motion } from 'framer-motion'
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { documentService } from '@/services/documentService'
+import { openPdf, renderPageToDataUrl } from '@/utils/pdfRender'
+import { formatPageRange, parsePageRange } from '@/utils/pageRanges'
+import { cn } from '@/utils'
+import type { Document } from '@/types'
+
+interface DocumentPreviewProps {
+  document: Document
+  pinnedVersion?: number
+  // When given, pages can be included or excluded from the packet
+  pageRange?: string
+  onPageRangeChange?: (pageRange: string) => void
+  onClose: () => void
+}
+
+const PAGE_WIDTH = 720
+const THUMBNAIL_WIDTH = 88
+
+/**
+ * Full-screen viewer for a library document: the current page plus a strip
+ * of page thumbnails to jump between pages
+ */
+export default function DocumentPreview({
+  document,
+  pinnedVersion,
+  pageRange,
+  onPageRangeChange,
+  onClose,
+}: DocumentPreviewProps) {
+  const pdfRef = useRef<PDFDocumentProxy | null>(null)
+  const [pageCount, setPageCount] = useState(0)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [pageImages, setPageImages] = useState<Record<number, string>>({})
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  // Open the PDF, then render the thumbnail strip one page at a time
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      if (!pinnedVersion && !document.storagePath) throw new Error(`Document "${document.name}" has no file attached`)
+      const url = pinnedVersion
+        ? (await documentService.resolveDocumentUrl(document, pinnedVersion)).url
+        : await documentService.getSignedUrl(document.storagePath)
+
+      const pdf = await openPdf(url)
+      if (cancelled) {
+        await pdf.destroy()
+        return
+      }
+      pdfRef.current = pdf
+      setPageCount(pdf.numPages)
+
+      for (let page = 1; page <= pdf.numPages && !cancelled; page++) {
+        const dataUrl = await renderPageToDataUrl(pdf, page, THUMBNAIL_WIDTH)
+        if (!cancelled) setThumbnails(current => ({ ...current, [page]: dataUrl }))
+      }
+    }
+
+    load().catch(err => {
+      if (cancelled) return
+      console.error(`Error previewing ${document.name}:`, err)
+      setError('This document could not be loaded for preview.')
+    })
+
+    return () => {
+      cancelled = true
+      pdfRef.current?.destroy()
+      pdfRef.current = null
+    }
+  }, [document.id, document.storagePath, pinnedVersion])
+
+  // Render the current page at full size when it is first shown
+  useEffect(() => {
+    const pdf = pdfRef.current
+    if (!pdf || pageImages[pageNumber]) return
+
+    let cancelled = false
+    renderPageToDataUrl(pdf, pageNumber, PAGE_WIDTH)
+      .then(dataUrl => {
+        if (!cancelled) setPageImages(current => ({ ...current, [pageNumber]: dataUrl }))
+      })
+      .catch(err => {
+        if (!cancelled) console.error(`Error rendering page ${pageNumber}:`, err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [pageCount, pageNumber])
+
+  // A range that no longer fits the file (e.g. after a new version) falls back to all pages
+  const selectablePages = !!onPageRangeChange && pageCount > 0
+  const parsedRange = parsePageRange(pageRange, pageCount || undefined)
+  const includedPages = new Set(parsedRange.pages || Array.from({ length: pageCount }, (_, index) => index + 1))
+
+  const togglePage = (page: number) => {
+    if (!onPageRangeChange) return
+    const next = new Set(includedPages)
+    if (next.has(page)) {
+      // A document in the packet needs at least one page
+      if (next.size === 1) return
+      next.delete(page)
+    } else {
+      next.add(page)
+    }
+    onPageRangeChange(next.size === pageCount ? '' : formatPageRange([...next]))
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+      if (event.key === 'ArrowLeft') setPageNumber(current => Math.max(1, current - 1))
+      if (event.key === 'ArrowRight') setPageNumber(current => Math.min(pageCount || 1, current + 1))
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [pageCount, onClose])
+
+  // Portal to the body so transformed ancestors (step animations) don't offset the overlay
+  return createPortal(
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="flex flex-col w-full max-w-5xl h-full max-h-[90vh] bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={`Preview of ${document.name}`}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-900 dark:text-white truncate">{document.name}</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {document.filename}
+              {pinnedVersion ? ` · v${pinnedVersion} (pinned)` : ` · v${document.currentVersion}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {selectablePages && (
+              <label className="flex items-center gap-1 mr-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includedPages.has(pageNumber)}
+                  onChange={() => togglePage(pageNumber)}
+                  className="rounded border-gray-300"
+                />
+                Include page
+              </label>
+            )}
+            <button
+              onClick={() => setPageNumber(current => Math.max(1, current - 1))}
+              disabled={pageNumber <= 1}
+              className="btn btn-ghost btn-sm p-2 disabled:opacity-30"
+              title="Previous page"
+            >
+              <ChevronLeftIcon className="w-5 h-5" />
+            </button>
+            <span className="text-sm text-gray-700 dark:text-gray-300 tabular-nums">
+              {pageCount > 0 ? `Page ${pageNumber} of ${pageCount}` : 'Loading...'}
+            </span>
+            <button
+              onClick={() => setPageNumber(current => Math.min(pageCount, current + 1))}
+              disabled={pageNumber >= pageCount}
+              className="btn btn-ghost btn-sm p-2 disabled:opacity-30"
+              title="Next page"
+            >
+              <ChevronRightIcon className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="btn btn-ghost btn-sm p-2" title="Close preview">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">{error}</div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Thumbnail Strip */}
+            <div className="hidden sm:block w-32 flex-shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700 p-3 space-y-3 bg-gray-50 dark:bg-gray-900">
+              {Array.from({ length: pageCount }, (_, index) => index + 1).map(page => (
+                <div key={page} className="relative">
+                  <button
+                    onClick={() => setPageNumber(page)}
+                    className={cn(
+                      "block w-full rounded border-2 overflow-hidden bg-white transition-colors",
+                      page === pageNumber ? "border-primary-500" : "border-transparent hover:border-gray-300",
+                      selectablePages && !includedPages.has(page) && "opacity-40"
+                    )}
+                  >
+                    {thumbnails[page] ? (
+                      <img src={thumbnails[page]} alt={`Page ${page}`} className="w-full h-auto" />
+                    ) : (
+                      <div className="w-full aspect-[8.5/11] bg-gray-100 dark:bg-gray-700 animate-pulse" />
+                    )}
+                    <span className="block text-xs text-gray-500 py-0.5">{page}</span>
+                  </button>
+                  {selectablePages && (
+                    <input
+                      type="checkbox"
+                      checked={includedPages.has(page)}
+                      onChange={() => togglePage(page)}
+                      className="absolute top-1 left-1 rounded border-gray-300"
+                      title={includedPages.has(page) ? 'Exclude from packet' : 'Include in packet'}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Current Page */}
+            <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 p-6">
+              {pageImages[pageNumber] ? (
+                <img
+                  src={pageImages[pageNumber]}
+                  alt={`Page ${pageNumber} of ${document.name}`}
+                  className="mx-auto shadow-lg bg-white"
+                  style={{ width: PAGE_WIDTH, maxWidth: '100%' }}
+                />
+              ) : (
+                <div
+                  className="mx-auto bg-white dark:bg-gray-800 shadow-lg animate-pulse aspect-[8.5/11]"
+                  style={{ width: PAGE_WIDTH, maxWidth: '100%' }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+        {selectablePages && (
+          <div className="flex items-center justify-between gap-4 px-6 py-3 border-t border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+            <span>
+              {includedPages.size === pageCount
+                ? `All ${pageCount} pages included`
+                : `Pages ${formatPageRange([...includedPages])} included (${includedPages.size} of ${pageCount})`}
+            </span>
+            {includedPages.size < pageCount && (
+              <button onClick={() => onPageRangeChange?.('')} className="btn btn-ghost btn-sm">
+                Include all pages
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>,
+    window.document.body
+  )
+}
@@ -0,0 +1,76 @@
+import type { Document, DocumentRuleFinding } from '@/types'
+import type { DocumentRuleEvaluation } from '@/utils/documentRules'
+import { cn } from '@/utils'
+
+interface DocumentRuleFindingsProps {
+  evaluation: DocumentRuleEvaluation
+  // Quick fixes are offered only where the selection can be changed
+  onAdd?: (document: Document) => void
+  onRemove?: (document: Document) => void
+}
+
+const sections: Array<{
+  key: keyof DocumentRuleEvaluation
+  title: string
+  verb: string
+  action: 'add' | 'remove'
+  className: string
+}> = [
+  {
+    key: 'conflicts',
+    title: 'Conflicting documents',
+    verb: 'conflicts with',
+    action: 'remove',
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200',
+  },
+  {
+    key: 'missingRequired',
+    title: 'Missing companion documents',
+    verb: 'requires',
+    action: 'add',
+    className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200',
+  },
+  {
+    key: 'recommended',
+    title: 'Suggested documents',
+    verb: 'is usually sent with',
+    action: 'add',
+    className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200',
+  },
+]
+
+/**
+ * Warnings and suggestions from the admin-defined document rules
+ */
+export default function DocumentRuleFindings({ evaluation, onAdd, onRemove }: DocumentRuleFindingsProps) {
+  return (
+    <div className="space-y-3">
+      {sections.map(({ key, title, verb, action, className }) => {
+        const findings: DocumentRuleFinding[] = evaluation[key]
+        if (findings.length === 0) return null
+
+        const fix = action === 'add' ? onAdd : onRemove
+        return (
+          <div key={key} className={cn('p-3 border rounded-lg text-sm', className)}>
+            <p className="font-medium mb-1">{title}:</p>
+            <ul className="space-y-1">
+              {findings.map(({ rule, document, relatedDocument }) => (
+                <li key={rule.id} className="flex items-start justify-between gap-4">
+                  <span>
+                    <strong>{document.name}</strong> {verb} <strong>{relatedDocument.name}</strong>
+                    {rule.note && <span className="block text-xs opacity-80">{rule.note}</span>}
+                  </span>
+                  {fix && (
+                    <button onClick={() => fix(relatedDocument)} className="btn btn-ghost btn-sm flex-shrink-0">
+                      {action === 'add' ? 'Add' : 'Remove'} {relatedDocument.name}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
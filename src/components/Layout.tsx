@@ -2,7 +2,7 @@ import React from 'react'
 import { motion } from 'framer-motion'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { SunIcon, MoonIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
-import { Cog6ToothIcon } from '@heroicons/react/24/outline'
+import { Cog6ToothIcon, FolderOpenIcon } from '@heroicons/react/24/outline'
 import { cn } from '@/utils'
 
 interface LayoutProps {
@@ -21,6 +21,7 @@ export default function Layout({
   const navigate = useNavigate()
   const location = useLocation()
   const isAdminPage = location.pathname === '/admin'
+  const isProjectsPage = location.pathname === '/projects'
   
   return (
     <div className="min-h-screen relative overflow-hidden">
@@ -65,6 +66,22 @@ export default function Layout({
               transition={{ duration: 0.6, delay: 0.2 }}
               className="flex items-center space-x-3"
             >
+              {/* My Projects Button */}
+              {!isAdminPage && !isProjectsPage && (
+                <button
+                  onClick={() => navigate('/projects')}
+                  className={cn(
+                    "btn btn-ghost btn-sm",
+                    "hidden sm:flex",
+                    "hover:bg-primary-50 hover:text-primary-600 dark:hover:bg-primary-900/20 dark:hover:text-primary-400"
+                  )}
+                  title="My Projects"
+                >
+                  <FolderOpenIcon className="w-4 h-4 mr-2" />
+                  My Projects
+                </button>
+              )}
+
               {/* Admin Button (only show on main page) */}
               {!isAdminPage && (
                 <button
@@ -82,7 +99,7 @@ export default function Layout({
               )}
               
               {/* Reset Button */}
-              {!isAdminPage && (
+              {!isAdminPage && !isProjectsPage && (
                 <button
                   onClick={onReset}
                   className={cn(
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Lock, Unlock, Eye, EyeOff } from 'lucide-react'
+import { authService } from '@/services/authService'
+
+interface LoginFormProps {
+  title: string
+  description?: string
+  // Used when the email field is left empty
+  fallbackEmail?: string
+  onClose?: () => void
+  closeLabel?: string
+}
+
+/**
+ * Email/password sign-in card. Callers pick up the new session through
+ * authService.onAuthStateChange.
+ */
+export default function LoginForm({ title, description, fallbackEmail, onClose, closeLabel = 'Back to App' }: LoginFormProps) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setLoading(true)
+      setError(null)
+
+      const loginEmail = email.trim() !== '' ? email.trim() : fallbackEmail || ''
+
+      const result = await authService.signInAdmin(loginEmail, password)
+
+      if (result?.user) {
+        setPassword('')
+        setEmail('')
+      } else {
+        setError('Authentication failed')
+      }
+    } catch (err: any) {
+      console.error('Authentication failed:', err)
+      setError(err?.message || 'Authentication failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card dark:glass-card-dark p-8 max-w-md w-full"
+    >
+      <div className="flex items-center justify-center mb-6">
+        <Lock className="w-12 h-12 text-blue-500" />
+      </div>
+      <h1 className="text-2xl font-bold text-center mb-2 text-gray-900 dark:text-white">
+        {title}
+      </h1>
+      {description && (
+        <p className="text-sm text-center text-gray-600 dark:text-gray-400 mb-6">{description}</p>
+      )}
+      {!description && <div className="mb-4" />}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleLogin}>
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+            {fallbackEmail ? 'Email (optional)' : 'Email'}
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white mb-3"
+            placeholder={fallbackEmail || 'you@company.com'}
+            required={!fallbackEmail}
+          />
+
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+            Password
+          </label>
+          <div className="relative">
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+              placeholder="Enter password"
+              required
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Unlock className="inline-block w-5 h-5 mr-2" />
+          {loading ? 'Signing in...' : 'Login'}
+        </button>
+      </form>
+
+      {onClose && (
+        <button
+          onClick={onClose}
+          className="w-full mt-4 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 font-medium py-2"
+        >
+          {closeLabel}
+        </button>
+      )}
+    </motion.div>
+  )
+}
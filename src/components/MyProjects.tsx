@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useNavigate } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { FolderOpen, Copy, RefreshCw, Trash2, LogOut, ChevronDown, ChevronRight, Download, GitCompare } from 'lucide-react'
+import { authService } from '@/services/authService'
+import { projectService } from '@/services/projectService'
+import { productService } from '@/services/productService'
+import LoginForm from '@/components/LoginForm'
+import RevisionChanges from '@/components/RevisionChanges'
+import { formatDate, formatFileSize } from '@/utils'
+import { diffRevisions } from '@/utils/revisions'
+import type { PacketRecord, Product, Project, SelectedDocument } from '@/types'
+
+interface MyProjectsProps {
+  currentProjectId?: string
+  // step: wizard step to land on after the project is loaded
+  onOpenProject: (project: Project, selectedDocuments: SelectedDocument[], step: number) => void
+}
+
+export default function MyProjects({ currentProjectId, onOpenProject }: MyProjectsProps) {
+  const navigate = useNavigate()
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [checkingAuth, setCheckingAuth] = useState(true)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [comparingPacketId, setComparingPacketId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+
+    const initAuth = async () => {
+      const isAuth = await authService.isAuthenticated()
+      if (mounted) {
+        setIsAuthenticated(isAuth)
+        setCheckingAuth(false)
+      }
+    }
+
+    initAuth()
+
+    const unsub = authService.onAuthStateChange((isAuth) => {
+      if (mounted) setIsAuthenticated(isAuth)
+    })
+
+    return () => {
+      mounted = false
+      unsub()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadProjects()
+      productService.getAllProducts().then(setProducts).catch(console.error)
+    } else {
+      setProjects([])
+    }
+  }, [isAuthenticated])
+
+  const loadProjects = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setProjects(await projectService.getMyProjects())
+    } catch (err) {
+      setError('Failed to load projects')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getProductName = (productType: string | null) =>
+    (productType && products.find(product => product.id === productType)?.name) || productType || 'No product'
+
+  const handleOpen = async (project: Project, step: number) => {
+    try {
+      setBusyId(project.id)
+      const { selectedDocuments, missing } = await projectService.restoreSelection(project)
+      if (missing > 0) {
+        toast(`${missing} document(s) in this project no longer exist and were removed from the selection.`)
+      }
+      onOpenProject(project, selectedDocuments, project.productType ? step : 1)
+    } catch (err) {
+      toast.error('Failed to open project')
+      console.error(err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDuplicate = async (project: Project) => {
+    try {
+      setBusyId(project.id)
+      const copy = await projectService.duplicateProject(project)
+      setProjects(current => [copy, ...current])
+      toast.success('Project duplicated')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to duplicate project')
+      console.error(err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Are you sure you want to delete "${project.name}" and its packet history?`)) return
+
+    try {
+      setBusyId(project.id)
+      await projectService.deleteProject(project)
+      setProjects(current => current.filter(item => item.id !== project.id))
+      toast.success('Project deleted')
+    } catch (err) {
+      toast.error('Failed to delete project')
+      console.error(err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDownloadPacket = async (packet: PacketRecord) => {
+    try {
+      window.location.href = await projectService.getPacketDownloadUrl(packet)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download packet')
+      console.error(err)
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await authService.signOut()
+    } catch (err) {
+      toast.error('Failed to logout')
+    }
+  }
+
+  if (checkingAuth) {
+    return null
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center py-16 px-4">
+        <LoginForm
+          title="My Projects"
+          description="Sign in to save submittal projects and reopen them on any machine."
+          onClose={() => navigate('/')}
+          closeLabel="Back to Builder"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">My Projects</h1>
+          <p className="text-gray-600 dark:text-gray-400">Reopen, duplicate or regenerate your submittal packets</p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => navigate('/')} className="btn btn-outline btn-sm">
+            Back to Builder
+          </button>
+          <button onClick={handleLogout} className="btn btn-ghost btn-sm">
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-600 dark:text-gray-400">Loading projects...</div>
+      ) : projects.length === 0 ? (
+        <div className="card p-12 text-center">
+          <FolderOpen className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">
+            No saved projects yet. Projects are saved when you generate a packet while signed in.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {projects.map((project, index) => {
+            const selectedCount = project.selection.filter(item => item.selected).length
+            const lastPacket = project.packets[0]
+            const isExpanded = expandedId === project.id
+            const isBusy = busyId === project.id
+
+            return (
+              <motion.div
+                key={project.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
+                className="card p-6"
+              >
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+                      {project.name}
+                      {project.id === currentProjectId && (
+                        <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                          Open in builder
+                        </span>
+                      )}
+                    </h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {getProductName(project.productType)}
+                      {project.formData.projectNumber && ` · #${project.formData.projectNumber}`}
+                      {` · ${selectedCount} document(s)`}
+                      {` · Updated ${formatDate(project.updatedAt)}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {lastPacket
+                        ? `Rev ${lastPacket.revision} issued ${formatDate(lastPacket.generatedAt)} · ${project.packets.length} revision(s)`
+                        : 'No packets generated yet'}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 flex-shrink-0">
+                    <button onClick={() => handleOpen(project, 2)} disabled={isBusy} className="btn btn-primary btn-sm">
+                      <FolderOpen className="w-4 h-4 mr-1" />
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleOpen(project, 4)}
+                      disabled={isBusy || selectedCount === 0}
+                      className="btn btn-outline btn-sm"
+                      title="Open at the generate step with the saved selection"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Regenerate
+                    </button>
+                    <button onClick={() => handleDuplicate(project)} disabled={isBusy} className="btn btn-outline btn-sm">
+                      <Copy className="w-4 h-4 mr-1" />
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleDelete(project)}
+                      disabled={isBusy}
+                      className="btn btn-ghost btn-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {project.packets.length > 0 && (
+                  <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-3">
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : project.id)}
+                      className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                      Revision history
+                    </button>
+                    {isExpanded && (
+                      <ul className="mt-2 divide-y divide-gray-100 dark:divide-gray-800">
+                        {project.packets.map((packet, packetIndex) => {
+                          // Packets are newest first, so the prior revision is the next entry
+                          const previous = project.packets[packetIndex + 1]
+                          const isComparing = comparingPacketId === packet.id
+                          return (
+                            <li key={packet.id} className="py-2 text-sm text-gray-600 dark:text-gray-400">
+                              <div className="flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                  <span className="font-semibold text-gray-900 dark:text-white mr-2">Rev {packet.revision}</span>
+                                  <span>{new Date(packet.generatedAt).toLocaleString()}</span>
+                                  <span className="block truncate">{packet.changeSummary || packet.filename}</span>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                  <span className="hidden md:inline">{packet.documents.length} doc(s) · {formatFileSize(packet.size)}</span>
+                                  {previous && (
+                                    <button
+                                      onClick={() => setComparingPacketId(isComparing ? null : packet.id)}
+                                      className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                                      title={`Compare with Rev ${previous.revision}`}
+                                    >
+                                      <GitCompare className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  {packet.storagePath && (
+                                    <button
+                                      onClick={() => handleDownloadPacket(packet)}
+                                      className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                                      title="Download this revision"
+                                    >
+                                      <Download className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                              {isComparing && previous && (
+                                <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                                  <RevisionChanges diff={diffRevisions(previous.documents, packet.documents)} sinceRevision={previous.revision} />
+                                </div>
+                              )}
+                            </li>
+                          )
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </motion.div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import type { PageNumbering, PageStampOptions, ProjectFormData } from '@/types'
+import { formatPageNumber } from '@/services/packetBuilder'
+
+interface PageStampSettingsProps {
+  stamp: PageStampOptions
+  formData: Partial<ProjectFormData>
+  disabled?: boolean
+  onChange: (changes: Partial<PageStampOptions>) => void
+}
+
+const numberingOptions: Array<{ value: PageNumbering; label: string }> = [
+  { value: 'pageOfTotal', label: 'Page X of Y' },
+  { value: 'bates', label: 'Sequential number (Bates)' },
+  { value: 'none', label: 'No page numbers' },
+]
+
+export default function PageStampSettings({ stamp, formData, disabled = false, onChange }: PageStampSettingsProps) {
+  const fieldToggles: Array<{ key: 'showProjectName' | 'showProjectNumber' | 'showStatus'; label: string }> = [
+    { key: 'showProjectName', label: `Project name${formData.projectName ? ` (${formData.projectName})` : ''}` },
+    { key: 'showProjectNumber', label: `Project number${formData.projectNumber ? ` (${formData.projectNumber})` : ''}` },
+    { key: 'showStatus', label: 'Submittal status' },
+  ]
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={stamp.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          disabled={disabled}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-900 dark:text-white">Header & footer stamp</span>
+          <span className="block text-xs text-gray-500 dark:text-gray-400">Stamps every page so reviewers can reference individual pages in their markups.</span>
+        </span>
+      </label>
+
+      {stamp.enabled && (
+        <div className="ml-7 space-y-3">
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {fieldToggles.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={stamp[key]}
+                  onChange={(e) => onChange({ [key]: e.target.checked })}
+                  disabled={disabled}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="stampNumbering" className="form-label text-sm font-medium">Page numbering</label>
+              <select
+                id="stampNumbering"
+                value={stamp.numbering}
+                onChange={(e) => onChange({ numbering: e.target.value as PageNumbering })}
+                disabled={disabled}
+                className="form-input bg-white dark:bg-gray-700 mt-1"
+              >
+                {numberingOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {stamp.numbering === 'bates' && (
+              <>
+                <div>
+                  <label htmlFor="stampPrefix" className="form-label text-sm font-medium">Prefix</label>
+                  <input
+                    id="stampPrefix"
+                    type="text"
+                    value={stamp.batesPrefix}
+                    onChange={(e) => onChange({ batesPrefix: e.target.value })}
+                    disabled={disabled}
+                    className="form-input bg-white dark:bg-gray-700 mt-1 w-28"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="stampStart" className="form-label text-sm font-medium">Start at</label>
+                  <input
+                    id="stampStart"
+                    type="number"
+                    min={0}
+                    value={stamp.batesStart}
+                    onChange={(e) => onChange({ batesStart: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                    disabled={disabled}
+                    className="form-input bg-white dark:bg-gray-700 mt-1 w-24"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {stamp.numbering === 'bates' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              First page will be numbered <span className="font-mono">{formatPageNumber(stamp, 0, 1)}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { DocumentIcon } from '@heroicons/react/24/outline'
+import { documentService } from '@/services/documentService'
+import { getFirstPageThumbnail } from '@/utils/pdfRender'
+import { cn } from '@/utils'
+import type { Document } from '@/types'
+
+interface PdfThumbnailProps {
+  document: Document
+  pinnedVersion?: number
+  width?: number // CSS pixels
+  className?: string
+}
+
+/**
+ * First page of a library document, falling back to a file icon while it
+ * renders or when the PDF cannot be loaded
+ */
+export default function PdfThumbnail({ document, pinnedVersion, width = 64, className }: PdfThumbnailProps) {
+  const [src, setSrc] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setSrc(null)
+    setFailed(false)
+
+    const load = async () => {
+      if (!pinnedVersion && !document.storagePath) throw new Error(`Document "${document.name}" has no file attached`)
+      const url = pinnedVersion
+        ? (await documentService.resolveDocumentUrl(document, pinnedVersion)).url
+        : await documentService.getSignedUrl(document.storagePath)
+      return getFirstPageThumbnail(url, width)
+    }
+
+    load()
+      .then(dataUrl => {
+        if (!cancelled) setSrc(dataUrl)
+      })
+      .catch(error => {
+        console.error(`Error rendering thumbnail for ${document.name}:`, error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [document.id, document.storagePath, pinnedVersion, width])
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-center overflow-hidden rounded border border-gray-200 dark:border-gray-600 bg-white flex-shrink-0",
+        className
+      )}
+      style={{ width, minHeight: Math.round(width * 1.29) }}
+    >
+      {src ? (
+        <img src={src} alt={`First page of ${document.name}`} className="w-full h-auto" />
+      ) : (
+        <DocumentIcon className={cn("w-1/2 h-1/2 text-gray-300", !failed && "animate-pulse")} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import type { PacketDocumentSnapshot, RevisionDiff } from '@/types'
+import { hasRevisionChanges } from '@/utils/revisions'
+
+interface RevisionChangesProps {
+  diff: RevisionDiff
+  // Revision the changes are compared against, e.g. 2 for "since Rev 2"
+  sinceRevision: number
+}
+
+const sections: Array<{ key: keyof RevisionDiff; label: string; className: string }> = [
+  { key: 'added', label: 'Added', className: 'text-green-700 dark:text-green-400' },
+  { key: 'removed', label: 'Removed', className: 'text-red-700 dark:text-red-400' },
+  { key: 'updated', label: 'Updated', className: 'text-amber-700 dark:text-amber-400' },
+  { key: 'reordered', label: 'Reordered', className: 'text-blue-700 dark:text-blue-400' },
+]
+
+export default function RevisionChanges({ diff, sinceRevision }: RevisionChangesProps) {
+  if (!hasRevisionChanges(diff)) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No document changes since Rev {sinceRevision}.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-gray-500 dark:text-gray-400">Changes since Rev {sinceRevision}:</p>
+      {sections.map(({ key, label, className }) => {
+        const documents: PacketDocumentSnapshot[] = diff[key]
+        if (documents.length === 0) return null
+        return (
+          <div key={key}>
+            <span className={`font-medium ${className}`}>{label} ({documents.length})</span>
+            <ul className="list-disc list-inside text-gray-700 dark:text-gray-300">
+              {documents.map(doc => (
+                <li key={doc.id}>
+                  {doc.name}
+                  {doc.version && <span className="text-gray-500 dark:text-gray-400"> (v{doc.version})</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react'
+import { ClipboardList, Download, ChevronDown, ChevronRight } from 'lucide-react'
+import { AUDIT_EVENT_LIMIT, auditService, type AuditEventFilters } from '@/services/auditService'
+import { AUDIT_ACTION_LABELS, auditEventsToCsv, summarizeAuditEvent } from '@/utils/auditLog'
+import { downloadFile } from '@/utils'
+import type { AuditAction, AuditEvent } from '@/types'
+
+interface AuditLogProps {
+  onError: (message: string) => void
+}
+
+// Wait for typing to pause before querying
+const SEARCH_DELAY_MS = 300
+
+/**
+ * Filterable history of library changes and packet generations, exportable as CSV
+ */
+export default function AuditLog({ onError }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [filters, setFilters] = useState<AuditEventFilters>({})
+  const [search, setSearch] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(current => ((current.search || '') === search ? current : { ...current, search }))
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    auditService.getEvents(filters)
+      .then(loaded => {
+        if (!cancelled) setEvents(loaded)
+      })
+      .catch(err => {
+        if (!cancelled) onError('Failed to load the audit log')
+        console.error(err)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [filters])
+
+  const handleExport = () => {
+    const blob = new Blob([auditEventsToCsv(events)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    downloadFile(url, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`)
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  const inputClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-gray-500" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Audit Log</h2>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Who changed the library and which documents went out in each packet</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={events.length === 0}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Download className="inline-block w-4 h-4 mr-2" />
+          Export CSV
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="User or document/project name"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+        <select
+          value={filters.action || ''}
+          onChange={(e) => setFilters({ ...filters, action: (e.target.value || undefined) as AuditAction | undefined })}
+          className={inputClass}
+        >
+          <option value="">All actions</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+            <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+          className={inputClass}
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+          className={inputClass}
+          title="To"
+        />
+      </div>
+
+      {loading && events.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading audit log...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No events match these filters.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800 max-h-[32rem] overflow-y-auto">
+            {events.map(event => {
+              const expanded = expandedId === event.id
+              return (
+                <li key={event.id} className="py-2 text-sm">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : event.id)}
+                    className="w-full flex items-start gap-2 text-left"
+                  >
+                    {expanded
+                      ? <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-gray-900 dark:text-white">
+                        <span className="font-medium">{AUDIT_ACTION_LABELS[event.action] || event.action}</span>
+                        {' · '}
+                        {event.targetName || event.targetId}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {new Date(event.occurredAt).toLocaleString()} · {event.actorEmail || 'Anonymous'} · {summarizeAuditEvent(event)}
+                      </p>
+                    </div>
+                  </button>
+                  {expanded && (
+                    <div className="mt-2 ml-6 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {event.before && (
+                        <pre className="p-2 text-xs bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto">
+                          {`Before\n${JSON.stringify(event.before, null, 2)}`}
+                        </pre>
+                      )}
+                      {event.after && (
+                        <pre className="p-2 text-xs bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto">
+                          {`After\n${JSON.stringify(event.after, null, 2)}`}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+          {events.length === AUDIT_EVENT_LIMIT && (
+            <p className="mt-2 text-xs text-gray-500">Showing the latest {AUDIT_EVENT_LIMIT} events; narrow the filters to see older ones.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
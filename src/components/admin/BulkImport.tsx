@@ -0,0 +1,430 @@
+import { useState } from 'react'
+import { Upload, RotateCcw, X, CheckCircle, AlertCircle, AlertTriangle, Loader2 } from 'lucide-react'
+import { documentTypeConfig } from '@/data/documents'
+import { documentService } from '@/services/documentService'
+import { suggestDocumentMetadata } from '@/utils/documentMetadata'
+import { summarizePdf } from '@/utils/pdfText'
+import { sha256Hex } from '@/utils/contentHash'
+import { expandZipFiles } from '@/utils/zipImport'
+import { formatFileSize, generateId } from '@/utils'
+import type { Document, DocumentType, Product, ProductType } from '@/types'
+
+interface BulkImportProps {
+  products: Product[]
+  productType: ProductType // Product new files are assigned to
+  onImported: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+}
+
+type ImportStatus = 'analyzing' | 'ready' | 'uploading' | 'done' | 'skipped' | 'failed'
+
+// What to do with a file whose contents are already in the library (or earlier in the list):
+// replace overwrites the existing document's details, version records the file as its next version
+type DuplicateAction = 'skip' | 'replace' | 'version' | 'upload'
+
+const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: 'Skip',
+  replace: 'Replace details',
+  version: 'Add as new version',
+  upload: 'Upload anyway',
+}
+
+interface ImportRow {
+  key: string
+  file: File
+  status: ImportStatus
+  progress: number
+  error?: string
+  edited: boolean // Analysis results no longer overwrite the fields once the user has changed them
+  name: string
+  description: string
+  docType: DocumentType
+  productType: ProductType
+  reportNumbers: string[]
+  contentHash?: string
+  duplicateOf?: Document // Library document with the same contents
+  duplicateOfFile?: string // Earlier file in this import with the same contents
+  duplicateAction: DuplicateAction
+}
+
+// Uploads run a few at a time; more mostly competes for the same connection
+const UPLOAD_CONCURRENCY = 3
+
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+/**
+ * Staged import: files (or ZIPs of files) are analysed into a review table
+ * whose name, type and description can be corrected before uploading
+ */
+export default function BulkImport({ products, productType, onImported, onError, onSuccess }: BulkImportProps) {
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [dragging, setDragging] = useState(false)
+
+  const updateRow = (key: string, changes: Partial<ImportRow>) => {
+    setRows(current => current.map(row => (row.key === key ? { ...row, ...changes } : row)))
+  }
+
+  const addFiles = async (selected: File[]) => {
+    if (!productType) {
+      onError('Create a product before uploading documents')
+      return
+    }
+
+    let files: File[]
+    try {
+      files = await expandZipFiles(selected)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read the ZIP file')
+      return
+    }
+
+    const pdfs = files.filter(file => file.type === 'application/pdf' || /\.pdf$/i.test(file.name))
+    if (pdfs.length < files.length) {
+      onError(`Skipped ${files.length - pdfs.length} file(s) that are not PDFs`)
+    }
+
+    const added: ImportRow[] = pdfs.map(file => ({
+      key: generateId(),
+      file,
+      status: 'analyzing',
+      progress: 0,
+      edited: false,
+      productType,
+      duplicateAction: 'skip',
+      ...suggestDocumentMetadata({ filename: file.name }),
+    }))
+    setRows(current => [...current, ...added])
+
+    // Parsing PDFs is CPU-bound, so analyse one file at a time
+    for (const row of added) {
+      try {
+        const contentHash = await sha256Hex(row.file)
+        const [duplicateOf] = await documentService.findDocumentsByHash(contentHash)
+        const suggestion = suggestDocumentMetadata(await summarizePdf(row.file))
+        setRows(current => {
+          const earlier = current.find(existing => existing.key !== row.key && existing.contentHash === contentHash)
+          return current.map(existing =>
+            existing.key !== row.key ? existing : {
+              ...existing,
+              ...(existing.edited ? { reportNumbers: suggestion.reportNumbers } : suggestion),
+              contentHash,
+              duplicateOf,
+              duplicateOfFile: duplicateOf ? undefined : earlier?.file.name,
+              status: 'ready',
+            }
+          )
+        })
+      } catch (err) {
+        // The filename-based guess stays; the upload itself reports unreadable files
+        console.error(`Error analysing ${row.file.name}:`, err)
+        updateRow(row.key, { status: 'ready' })
+      }
+    }
+  }
+
+  const editRow = (key: string, changes: Partial<Pick<ImportRow, 'name' | 'description' | 'docType' | 'productType' | 'duplicateAction'>>) => {
+    updateRow(key, { ...changes, edited: true })
+  }
+
+  const uploadRows = async (toUpload: ImportRow[]) => {
+    const invalid = toUpload.find(row => !row.name.trim())
+    if (invalid) {
+      onError(`Enter a name for ${invalid.file.name}`)
+      return
+    }
+
+    setUploading(true)
+    let successful = 0
+    const failed: string[] = []
+
+    await runWithConcurrency(toUpload, UPLOAD_CONCURRENCY, async row => {
+      const duplicate = !!row.duplicateOf || !!row.duplicateOfFile
+      if (duplicate && row.duplicateAction === 'skip') {
+        updateRow(row.key, { status: 'skipped' })
+        return
+      }
+
+      updateRow(row.key, { status: 'uploading', progress: 0, error: undefined })
+      const onProgress = (progress: number) => updateRow(row.key, { progress })
+      try {
+        if (row.duplicateOf && row.duplicateAction === 'replace') {
+          // The file is identical, so only the reviewed details change
+          await documentService.updateDocument(row.duplicateOf.id, {
+            name: row.name,
+            description: row.description,
+            docType: row.docType,
+            productType: row.productType,
+          })
+        } else if (row.duplicateOf && row.duplicateAction === 'version') {
+          await documentService.uploadNewVersion(row.duplicateOf.id, row.file, `Re-uploaded as ${row.file.name}`, onProgress)
+        } else {
+          await documentService.uploadDocument(
+            row.file,
+            row.productType,
+            { name: row.name, description: row.description, docType: row.docType },
+            onProgress
+          )
+        }
+        updateRow(row.key, { status: 'done', progress: 100 })
+        successful++
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        updateRow(row.key, { status: 'failed', error: message })
+        failed.push(row.file.name)
+        console.error(`Failed to upload ${row.file.name}:`, err)
+      }
+    })
+
+    setUploading(false)
+    if (successful > 0) {
+      onSuccess(`Successfully imported ${successful} document(s)`)
+      await onImported()
+    }
+    if (failed.length > 0) {
+      onError(`Failed to upload ${failed.length} file(s): ${failed.join(', ')}. Use Retry to try again.`)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    addFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  const pending = rows.filter(row => row.status === 'ready')
+  const failedRows = rows.filter(row => row.status === 'failed')
+  const analyzing = rows.some(row => row.status === 'analyzing')
+  const finished = rows.filter(row => row.status === 'done' || row.status === 'skipped')
+  const duplicates = pending.filter(row => row.duplicateOf || row.duplicateOfFile)
+
+  const cellInputClass = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-800 dark:text-white disabled:opacity-60'
+
+  return (
+    <div>
+      <label
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className="block"
+      >
+        <input type="file" accept="application/pdf,.pdf,.zip" multiple onChange={handleFileInput} disabled={uploading} className="hidden" />
+        <div className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors cursor-pointer ${dragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-300 dark:border-gray-600 hover:border-blue-500 dark:hover:border-blue-400'}`}>
+          <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+          <p className="text-gray-600 dark:text-gray-400 mb-2">Drop PDFs or a ZIP here, or click to choose files</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500">
+            Names and types are suggested from each PDF; review them before uploading
+          </p>
+        </div>
+      </label>
+
+      {rows.length > 0 && (
+        <div className="mt-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-2 font-medium">File</th>
+                  <th className="py-2 pr-2 font-medium">Name</th>
+                  <th className="py-2 pr-2 font-medium">Type</th>
+                  <th className="py-2 pr-2 font-medium">Description</th>
+                  <th className="py-2 pr-2 font-medium">Product</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const locked = row.status === 'uploading' || row.status === 'done' || row.status === 'skipped'
+                  // A new version only adds a file; the existing document keeps its details
+                  const addsVersion = !!row.duplicateOf && row.duplicateAction === 'version'
+                  const actions: DuplicateAction[] = row.duplicateOf ? ['skip', 'replace', 'version', 'upload'] : ['skip', 'upload']
+                  return (
+                    <tr key={row.key} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                      <td className="py-2 pr-2 text-gray-700 dark:text-gray-300">
+                        <p className="truncate max-w-[12rem]" title={row.file.name}>{row.file.name}</p>
+                        <p className="text-xs text-gray-500">{formatFileSize(row.file.size)}</p>
+                        {(row.duplicateOf || row.duplicateOfFile) && (
+                          <div className="mt-1 p-1.5 rounded bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200 max-w-[14rem]">
+                            <p className="flex items-start gap-1">
+                              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                              <span>
+                                {row.duplicateOf
+                                  ? `Same file as "${row.duplicateOf.name}" (${row.duplicateOf.filename})`
+                                  : `Same file as ${row.duplicateOfFile} above`}
+                              </span>
+                            </p>
+                            <select
+                              value={row.duplicateAction}
+                              onChange={(e) => editRow(row.key, { duplicateAction: e.target.value as DuplicateAction })}
+                              disabled={locked}
+                              className={`${cellInputClass} mt-1`}
+                            >
+                              {actions.map(action => (
+                                <option key={action} value={action}>{DUPLICATE_ACTION_LABELS[action]}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 min-w-[12rem]">
+                        <input
+                          type="text"
+                          value={row.name}
+                          onChange={(e) => editRow(row.key, { name: e.target.value })}
+                          disabled={locked || addsVersion}
+                          className={cellInputClass}
+                        />
+                        {row.reportNumbers.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {row.reportNumbers.map(number => (
+                              <span key={number} className="px-1.5 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded">
+                                {number}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={row.docType}
+                          onChange={(e) => editRow(row.key, { docType: e.target.value as DocumentType })}
+                          disabled={locked || addsVersion}
+                          className={cellInputClass}
+                        >
+                          {(Object.keys(documentTypeConfig) as DocumentType[]).map(type => (
+                            <option key={type} value={type}>{documentTypeConfig[type].label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2 min-w-[12rem]">
+                        <input
+                          type="text"
+                          value={row.description}
+                          onChange={(e) => editRow(row.key, { description: e.target.value })}
+                          disabled={locked || addsVersion}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={row.productType}
+                          onChange={(e) => editRow(row.key, { productType: e.target.value })}
+                          disabled={locked || addsVersion}
+                          className={cellInputClass}
+                        >
+                          {products.map(product => (
+                            <option key={product.id} value={product.id}>{product.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {row.status === 'analyzing' && (
+                          <span className="flex items-center gap-1 text-gray-500"><Loader2 className="w-4 h-4 animate-spin" /> Reading</span>
+                        )}
+                        {row.status === 'ready' && <span className="text-gray-500">Ready</span>}
+                        {row.status === 'uploading' && (
+                          <div className="w-24">
+                            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                              <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${row.progress}%` }} />
+                            </div>
+                            <span className="text-xs text-gray-500">{row.progress}%</span>
+                          </div>
+                        )}
+                        {row.status === 'done' && (
+                          <span className="flex items-center gap-1 text-green-600 dark:text-green-400"><CheckCircle className="w-4 h-4" /> Uploaded</span>
+                        )}
+                        {row.status === 'skipped' && <span className="text-gray-500">Skipped (duplicate)</span>}
+                        {row.status === 'failed' && (
+                          <span className="flex items-center gap-1 text-red-600 dark:text-red-400" title={row.error}>
+                            <AlertCircle className="w-4 h-4" /> Failed
+                          </span>
+                        )}
+                        {row.status === 'failed' && row.error && (
+                          <p className="text-xs text-red-600 dark:text-red-400 max-w-[12rem] whitespace-normal">{row.error}</p>
+                        )}
+                      </td>
+                      <td className="py-2 whitespace-nowrap">
+                        {row.status === 'failed' && (
+                          <button
+                            onClick={() => uploadRows([row])}
+                            disabled={uploading}
+                            className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                            title="Retry"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        {row.status !== 'uploading' && (
+                          <button
+                            onClick={() => setRows(current => current.filter(existing => existing.key !== row.key))}
+                            className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                            title="Remove from list"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <button
+              onClick={() => uploadRows(pending)}
+              disabled={uploading || analyzing || pending.length === 0}
+              className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Upload className="inline-block w-4 h-4 mr-2" />
+              {analyzing ? 'Reading files...' : `Upload ${pending.length} document(s)`}
+            </button>
+            {duplicates.length > 0 && (
+              <span className="self-center text-sm text-yellow-700 dark:text-yellow-300">
+                {duplicates.length} duplicate(s) found; choose what to do with each before uploading
+              </span>
+            )}
+            {failedRows.length > 0 && (
+              <button
+                onClick={() => uploadRows(failedRows)}
+                disabled={uploading}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="inline-block w-4 h-4 mr-2" />
+                Retry {failedRows.length} failed
+              </button>
+            )}
+            {finished.length > 0 && (
+              <button
+                onClick={() => setRows(current => current.filter(row => row.status !== 'done' && row.status !== 'skipped'))}
+                disabled={uploading}
+                className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                Clear {finished.length} finished
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
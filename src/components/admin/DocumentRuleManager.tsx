@@ -0,0 +1,212 @@
+import { useState } from 'react'
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react'
+import { documentRuleService, type DocumentRuleInput } from '@/services/documentRuleService'
+import { DOCUMENT_RULE_LABELS } from '@/utils/documentRules'
+import type { Document, DocumentRule, DocumentRuleType, Product } from '@/types'
+
+interface DocumentRuleManagerProps {
+  rules: DocumentRule[]
+  documents: Document[]
+  products: Product[]
+  onChanged: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide add, edit and delete actions
+}
+
+const emptyForm: DocumentRuleInput = { documentId: '', relatedDocumentId: '', type: 'requires', note: '' }
+
+const RULE_TYPE_CLASSES: Record<DocumentRuleType, string> = {
+  requires: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  recommends: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  conflicts: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+}
+
+export default function DocumentRuleManager({
+  rules,
+  documents,
+  products,
+  onChanged,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: DocumentRuleManagerProps) {
+  // null = closed, '' = creating a new rule, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<DocumentRuleInput>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const documentName = (id: string) => documents.find(doc => doc.id === id)?.name || 'Deleted document'
+
+  const startCreate = () => {
+    setEditingId('')
+    setForm(emptyForm)
+  }
+
+  const startEdit = (rule: DocumentRule) => {
+    setEditingId(rule.id)
+    setForm({ documentId: rule.documentId, relatedDocumentId: rule.relatedDocumentId, type: rule.type, note: rule.note })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      if (editingId) {
+        await documentRuleService.updateRule(editingId, { type: form.type, note: form.note })
+        onSuccess('Rule updated successfully')
+      } else {
+        await documentRuleService.createRule(form)
+        onSuccess('Rule created successfully')
+      }
+      handleCancel()
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save rule')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: DocumentRule) => {
+    const description = `${documentName(rule.documentId)} ${DOCUMENT_RULE_LABELS[rule.type]} ${documentName(rule.relatedDocumentId)}`
+    if (!confirm(`Are you sure you want to delete the rule "${description}"?`)) return
+
+    try {
+      setSaving(true)
+      await documentRuleService.deleteRule(rule.id)
+      onSuccess('Rule deleted successfully')
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete rule')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const documentOptions = products.map(product => (
+    <optgroup key={product.id} label={product.name}>
+      {documents
+        .filter(doc => doc.productType === product.id)
+        .map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+    </optgroup>
+  ))
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+  const labelClass = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Document Rules</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Which documents go together, checked while packets are assembled</p>
+        </div>
+        {!readOnly && editingId === null && (
+          <button onClick={startCreate} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <Plus className="inline-block w-4 h-4 mr-2" />
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <div className="border border-blue-300 dark:border-blue-700 rounded-lg p-4 mb-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>When this document is selected</label>
+              <select
+                value={form.documentId}
+                onChange={(e) => setForm({ ...form, documentId: e.target.value })}
+                disabled={!!editingId}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                <option value="">Choose a document...</option>
+                {documentOptions}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>It</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as DocumentRuleType })}
+                className={inputClass}
+              >
+                {(Object.keys(DOCUMENT_RULE_LABELS) as DocumentRuleType[]).map(type => (
+                  <option key={type} value={type}>{DOCUMENT_RULE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>This document</label>
+              <select
+                value={form.relatedDocumentId}
+                onChange={(e) => setForm({ ...form, relatedDocumentId: e.target.value })}
+                disabled={!!editingId}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                <option value="">Choose a document...</option>
+                {documentOptions}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Note (optional)</label>
+            <input
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              className={inputClass}
+              placeholder="UL H501 lists the panel by its TDS designation"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button onClick={handleCancel} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No rules yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between gap-4 border border-gray-200 dark:border-gray-700 rounded-lg px-4 py-2 text-sm text-gray-700 dark:text-gray-300">
+              <div className="min-w-0">
+                <p className="truncate">
+                  <span className="font-medium text-gray-900 dark:text-white">{documentName(rule.documentId)}</span>
+                  <span className={`mx-2 px-2 py-0.5 text-xs rounded ${RULE_TYPE_CLASSES[rule.type]}`}>{DOCUMENT_RULE_LABELS[rule.type]}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{documentName(rule.relatedDocumentId)}</span>
+                </p>
+                {rule.note && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{rule.note}</p>}
+              </div>
+              {!readOnly && (
+                <span className="flex gap-1 flex-shrink-0">
+                  <button onClick={() => startEdit(rule)} className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors">
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(rule)} disabled={saving} className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react'
+import { Upload, Download } from 'lucide-react'
+import { documentService } from '@/services/documentService'
+import { sha256Hex } from '@/utils/contentHash'
+import { formatDate, formatFileSize } from '@/utils'
+import type { Document, DocumentVersion } from '@/types'
+
+interface DocumentVersionHistoryProps {
+  document: Document
+  onVersionUploaded: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide uploading a new version
+}
+
+export default function DocumentVersionHistory({
+  document,
+  onVersionUploaded,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: DocumentVersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState(0)
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    loadVersions()
+  }, [document.id, document.currentVersion])
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true)
+      setVersions(await documentService.getDocumentVersions(document.id))
+    } catch (err) {
+      onError('Failed to load version history')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDownload = async (version: DocumentVersion) => {
+    try {
+      window.location.href = await documentService.getSignedUrl(version.storagePath, version.filename)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to download version')
+      console.error(err)
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    if (document.contentHash && await sha256Hex(file) === document.contentHash &&
+        !confirm(`${file.name} is identical to the current version of ${document.name}. Upload it anyway?`)) {
+      e.target.value = ''
+      return
+    }
+
+    try {
+      setUploading(true)
+      setUploadProgress(0)
+      const updated = await documentService.uploadNewVersion(document.id, file, notes, setUploadProgress)
+      setNotes('')
+      onSuccess(`Uploaded version ${updated.currentVersion} of ${document.name}`)
+      await onVersionUploaded()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to upload new version')
+      console.error(err)
+    } finally {
+      setUploading(false)
+      setUploadProgress(0)
+      e.target.value = ''
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+      {!readOnly && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What changed in this version? (optional)"
+            disabled={uploading}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+          />
+          <label className={`inline-flex items-center justify-center px-4 py-2 text-sm rounded-lg text-white transition-colors ${uploading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600 cursor-pointer'}`}>
+            <Upload className="w-4 h-4 mr-2" />
+            {uploading ? `Uploading ${uploadProgress}%` : 'Upload New Version'}
+            <input type="file" accept=".pdf" onChange={handleUpload} disabled={uploading} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {loading && versions.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading versions...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {versions.map(version => (
+            <li key={version.id} className="py-2 flex items-start justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <span className="font-semibold text-gray-900 dark:text-white mr-2">v{version.versionNumber}</span>
+                {version.versionNumber === document.currentVersion && (
+                  <span className="mr-2 px-2 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
+                    Current
+                  </span>
+                )}
+                <span className="text-gray-600 dark:text-gray-400">
+                  {formatDate(version.createdAt)} · {formatFileSize(version.size)}
+                </span>
+                <p className="truncate text-gray-500 dark:text-gray-400">{version.notes || version.filename}</p>
+              </div>
+              <button
+                onClick={() => handleDownload(version)}
+                className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors flex-shrink-0"
+                title={`Download ${version.filename}`}
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { AlertTriangle, CalendarClock, CheckCircle, Edit2 } from 'lucide-react'
+import {
+  EXPIRY_WARNING_DAYS,
+  daysUntilExpiry,
+  describeExpiry,
+  formatDateOnly,
+  getExpiryStatus,
+} from '@/utils/documentExpiry'
+import { documentTypeConfig } from '@/data/documents'
+import type { Document, Product } from '@/types'
+
+interface ExpiryDashboardProps {
+  documents: Document[]
+  products: Product[]
+  onEdit?: (doc: Document) => void // Omitted for users who can't edit documents
+}
+
+export default function ExpiryDashboard({ documents, products, onEdit }: ExpiryDashboardProps) {
+  const byExpiry = (a: Document, b: Document) => (daysUntilExpiry(a) ?? 0) - (daysUntilExpiry(b) ?? 0)
+  const expired = documents.filter(doc => getExpiryStatus(doc) === 'expired').sort(byExpiry)
+  const expiring = documents.filter(doc => getExpiryStatus(doc) === 'expiring').sort(byExpiry)
+  const tracked = documents.filter(doc => doc.expirationDate).length
+
+  const getProductName = (productType: string) =>
+    products.find(product => product.id === productType)?.name || productType
+
+  const renderRow = (doc: Document, expiredRow: boolean) => (
+    <li key={doc.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 dark:text-white truncate">{doc.name}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {getProductName(doc.productType)} · {documentTypeConfig[doc.docType]?.label || doc.docType} · Expiration {formatDateOnly(doc.expirationDate!)}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span className={`px-2 py-0.5 text-xs rounded ${expiredRow
+          ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+          : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'}`}
+        >
+          {describeExpiry(doc)}
+        </span>
+        {onEdit && (
+          <button
+            onClick={() => onEdit(doc)}
+            className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+            title="Edit dates"
+          >
+            <Edit2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </li>
+  )
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-gray-500" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Document Expiry</h2>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {tracked} of {documents.length} documents have an expiration date
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20">
+          <p className="text-2xl font-bold text-red-700 dark:text-red-300">{expired.length}</p>
+          <p className="text-sm text-red-700 dark:text-red-300">Expired</p>
+        </div>
+        <div className="p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-2xl font-bold text-amber-700 dark:text-amber-300">{expiring.length}</p>
+          <p className="text-sm text-amber-700 dark:text-amber-300">Expiring within {EXPIRY_WARNING_DAYS} days</p>
+        </div>
+        <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20">
+          <p className="text-2xl font-bold text-green-700 dark:text-green-300">
+            {documents.filter(doc => getExpiryStatus(doc) === 'valid').length}
+          </p>
+          <p className="text-sm text-green-700 dark:text-green-300">Current</p>
+        </div>
+      </div>
+
+      {expired.length === 0 && expiring.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <CheckCircle className="w-4 h-4 text-green-500" />
+          No documents are expired or expiring soon
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {expired.length > 0 && (
+            <div>
+              <h3 className="flex items-center gap-1 text-sm font-semibold text-red-700 dark:text-red-300">
+                <AlertTriangle className="w-4 h-4" />
+                Expired - replace with a reissued report
+              </h3>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                {expired.map(doc => renderRow(doc, true))}
+              </ul>
+            </div>
+          )}
+          {expiring.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-amber-700 dark:text-amber-300">Expiring soon</h3>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                {expiring.map(doc => renderRow(doc, false))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
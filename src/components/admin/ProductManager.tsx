@@ -0,0 +1,315 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Plus, Edit2, Trash2, Save, X, Package } from 'lucide-react'
+import { productService, type ProductInput } from '@/services/productService'
+import type { Document, Product } from '@/types'
+
+interface ProductManagerProps {
+  products: Product[]
+  documents: Document[]
+  loading: boolean
+  onChanged: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide add, edit and delete actions
+}
+
+interface ProductFormState {
+  id: string
+  name: string
+  description: string
+  imageUrl: string
+  sizes: string
+  defaultDocumentIds: string[]
+  sortOrder: number
+  active: boolean
+}
+
+const emptyForm: ProductFormState = {
+  id: '',
+  name: '',
+  description: '',
+  imageUrl: '',
+  sizes: '',
+  defaultDocumentIds: [],
+  sortOrder: 0,
+  active: true,
+}
+
+export default function ProductManager({
+  products,
+  documents,
+  loading,
+  onChanged,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: ProductManagerProps) {
+  // null = closed, '' = creating a new product, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<ProductFormState>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const startCreate = () => {
+    setEditingId('')
+    setForm({ ...emptyForm, sortOrder: products.length + 1 })
+  }
+
+  const startEdit = (product: Product) => {
+    setEditingId(product.id)
+    setForm({
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      imageUrl: product.imageUrl,
+      sizes: product.availableSizes.join(', '),
+      defaultDocumentIds: product.defaultDocumentIds,
+      sortOrder: product.sortOrder,
+      active: product.active,
+    })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const toggleDefaultDocument = (documentId: string) => {
+    setForm(prev => ({
+      ...prev,
+      defaultDocumentIds: prev.defaultDocumentIds.includes(documentId)
+        ? prev.defaultDocumentIds.filter(id => id !== documentId)
+        : [...prev.defaultDocumentIds, documentId],
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      onError('Product name is required')
+      return
+    }
+
+    const input: ProductInput = {
+      name: form.name,
+      description: form.description,
+      imageUrl: form.imageUrl.trim(),
+      availableSizes: form.sizes.split(',').map(size => size.trim()).filter(Boolean),
+      defaultDocumentIds: form.defaultDocumentIds,
+      sortOrder: form.sortOrder,
+      active: form.active,
+    }
+
+    try {
+      setSaving(true)
+      if (editingId) {
+        await productService.updateProduct(editingId, input)
+        onSuccess('Product updated successfully')
+      } else {
+        await productService.createProduct({ ...input, id: form.id || undefined })
+        onSuccess('Product created successfully')
+      }
+      handleCancel()
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save product')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (product: Product) => {
+    if (!confirm(`Are you sure you want to delete "${product.name}"?`)) return
+
+    try {
+      setSaving(true)
+      await productService.deleteProduct(product.id)
+      onSuccess('Product deleted successfully')
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete product')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Default documents can only come from the product's own library
+  const productDocuments = documents.filter(doc => doc.productType === editingId)
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+  const labelClass = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Products</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Product lines offered in the packet wizard</p>
+        </div>
+        {!readOnly && editingId === null && (
+          <button onClick={startCreate} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <Plus className="inline-block w-4 h-4 mr-2" />
+            Add Product
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="border border-blue-300 dark:border-blue-700 rounded-lg p-4 mb-4 space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Product Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                placeholder="Wall Sheathing Panel"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Product ID</label>
+              <input
+                type="text"
+                value={editingId ? form.id : form.id || productService.slugify(form.name)}
+                onChange={(e) => setForm({ ...form, id: e.target.value })}
+                disabled={!!editingId}
+                className={`${inputClass} disabled:opacity-60`}
+                placeholder="wall-sheathing"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Used to group documents; cannot be changed later</p>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Image URL</label>
+              <input
+                type="url"
+                value={form.imageUrl}
+                onChange={(e) => setForm({ ...form, imageUrl: e.target.value })}
+                className={inputClass}
+                placeholder="https://..."
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Available Sizes</label>
+              <input
+                type="text"
+                value={form.sizes}
+                onChange={(e) => setForm({ ...form, sizes: e.target.value })}
+                className={inputClass}
+                placeholder="1/2-in (12mm), 5/8-in (16mm)"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Comma-separated</p>
+            </div>
+            <div>
+              <label className={labelClass}>Display Order</label>
+              <input
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {editingId && (
+            <div>
+              <label className={labelClass}>Default Documents</label>
+              {productDocuments.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Upload documents to this product to choose defaults.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {productDocuments.map(doc => (
+                    <label key={doc.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.defaultDocumentIds.includes(doc.id)}
+                        onChange={() => toggleDefaultDocument(doc.id)}
+                        className="rounded border-gray-300"
+                      />
+                      <span className="truncate">{doc.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Show in packet wizard
+          </label>
+
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button onClick={handleCancel} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {loading && products.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">Loading products...</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {products.map(product => (
+            <div key={product.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex items-start justify-between">
+              <div className="flex items-start gap-3 flex-1 min-w-0">
+                {product.imageUrl ? (
+                  <img src={product.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                ) : (
+                  <Package className="w-10 h-10 text-blue-500 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                    {product.name}
+                    {!product.active && <span className="ml-2 text-xs font-normal text-gray-500">(hidden)</span>}
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{product.description}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {product.availableSizes.join(', ') || 'No sizes'} · {product.defaultDocumentIds.length} default document(s)
+                  </p>
+                </div>
+              </div>
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <button onClick={() => startEdit(product)} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors">
+                    <Edit2 className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => handleDelete(product)} disabled={saving} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors">
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
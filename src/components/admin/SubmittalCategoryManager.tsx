@@ -0,0 +1,187 @@
+import { useState } from 'react'
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react'
+import { submittalCategoryService, type SubmittalCategoryInput } from '@/services/submittalCategoryService'
+import { groupChecklist } from '@/utils/submittalChecklist'
+import type { Document, SubmittalCategory } from '@/types'
+
+interface SubmittalCategoryManagerProps {
+  categories: SubmittalCategory[]
+  documents: Document[]
+  onChanged: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide add, edit and delete actions
+}
+
+const emptyForm: SubmittalCategoryInput = { label: '', group: '', sortOrder: 0 }
+
+export default function SubmittalCategoryManager({
+  categories,
+  documents,
+  onChanged,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: SubmittalCategoryManagerProps) {
+  // null = closed, '' = creating a new category, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<SubmittalCategoryInput>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const existingGroups = Array.from(new Set(categories.map(category => category.group).filter(Boolean)))
+
+  const countTagged = (categoryId: string) =>
+    documents.filter(doc => doc.submittalCategoryIds.includes(categoryId)).length
+
+  const startCreate = () => {
+    const lastOrder = categories.reduce((max, category) => Math.max(max, category.sortOrder), 0)
+    setEditingId('')
+    setForm({ ...emptyForm, sortOrder: lastOrder + 10 })
+  }
+
+  const startEdit = (category: SubmittalCategory) => {
+    setEditingId(category.id)
+    setForm({ label: category.label, group: category.group, sortOrder: category.sortOrder })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      if (editingId) {
+        await submittalCategoryService.updateCategory(editingId, form)
+        onSuccess('Category updated successfully')
+      } else {
+        await submittalCategoryService.createCategory(form)
+        onSuccess('Category created successfully')
+      }
+      handleCancel()
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save category')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: SubmittalCategory) => {
+    const tagged = countTagged(category.id)
+    const warning = tagged > 0 ? ` It is used by ${tagged} document(s).` : ''
+    if (!confirm(`Are you sure you want to delete "${category.label}"?${warning}`)) return
+
+    try {
+      setSaving(true)
+      await submittalCategoryService.deleteCategory(category.id)
+      onSuccess('Category deleted successfully')
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete category')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+  const labelClass = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Submittal Categories</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Cover page checklist entries. Tag documents with them below.</p>
+        </div>
+        {!readOnly && editingId === null && (
+          <button onClick={startCreate} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <Plus className="inline-block w-4 h-4 mr-2" />
+            Add Category
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <div className="border border-blue-300 dark:border-blue-700 rounded-lg p-4 mb-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Group (optional)</label>
+              <input
+                type="text"
+                list="submittal-category-groups"
+                value={form.group}
+                onChange={(e) => setForm({ ...form, group: e.target.value })}
+                className={inputClass}
+                placeholder="Fire Assembly"
+              />
+              <datalist id="submittal-category-groups">
+                {existingGroups.map(group => <option key={group} value={group} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>Label</label>
+              <input
+                type="text"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className={inputClass}
+                placeholder="10"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Checklist Order</label>
+              <input
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button onClick={handleCancel} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {groupChecklist(categories).map(({ group, items }) => (
+          <div key={group || items[0].id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+            {group && <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{group}</h3>}
+            <ul className="space-y-1">
+              {items.map(category => (
+                <li key={category.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                  <span className="truncate">
+                    {category.label}
+                    <span className="ml-2 text-xs text-gray-500">({countTagged(category.id)})</span>
+                  </span>
+                  {!readOnly && (
+                    <span className="flex gap-1 flex-shrink-0">
+                      <button onClick={() => startEdit(category)} className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors">
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(category)} disabled={saving} className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Plus, Edit2, Trash2, Save, X, Layers, ChevronUp, ChevronDown, Lock } from 'lucide-react'
+import { templateService } from '@/services/templateService'
+import { withRequiredDocuments } from '@/utils/templates'
+import type { Document, PacketTemplate, Product } from '@/types'
+
+interface TemplateManagerProps {
+  templates: PacketTemplate[]
+  products: Product[]
+  documents: Document[]
+  loading: boolean
+  onChanged: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide add, edit and delete actions
+}
+
+interface TemplateFormState {
+  name: string
+  description: string
+  productType: string
+  documentIds: string[]
+}
+
+const emptyForm: TemplateFormState = {
+  name: '',
+  description: '',
+  productType: '',
+  documentIds: [],
+}
+
+export default function TemplateManager({
+  templates,
+  products,
+  documents,
+  loading,
+  onChanged,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: TemplateManagerProps) {
+  // null = closed, '' = creating a new template, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TemplateFormState>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const productDocuments = documents.filter(doc => doc.productType === form.productType)
+  const documentById = new Map(documents.map(doc => [doc.id, doc]))
+
+  const startCreate = () => {
+    const productType = products[0]?.id || ''
+    setEditingId('')
+    setForm({
+      ...emptyForm,
+      productType,
+      documentIds: withRequiredDocuments([], documents.filter(doc => doc.productType === productType)),
+    })
+  }
+
+  const startEdit = (template: PacketTemplate) => {
+    setEditingId(template.id)
+    setForm({
+      name: template.name,
+      description: template.description,
+      productType: template.productType,
+      documentIds: withRequiredDocuments(
+        template.documentIds,
+        documents.filter(doc => doc.productType === template.productType)
+      ),
+    })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  // Documents belong to one product, so switching products starts the list over
+  const changeProduct = (productType: string) => {
+    setForm(prev => ({
+      ...prev,
+      productType,
+      documentIds: withRequiredDocuments([], documents.filter(doc => doc.productType === productType)),
+    }))
+  }
+
+  const addDocument = (documentId: string) => {
+    if (!documentId) return
+    setForm(prev => ({ ...prev, documentIds: [...prev.documentIds, documentId] }))
+  }
+
+  const removeDocument = (documentId: string) => {
+    setForm(prev => ({ ...prev, documentIds: prev.documentIds.filter(id => id !== documentId) }))
+  }
+
+  const moveDocument = (index: number, offset: number) => {
+    setForm(prev => {
+      const documentIds = [...prev.documentIds]
+      const [moved] = documentIds.splice(index, 1)
+      documentIds.splice(index + offset, 0, moved)
+      return { ...prev, documentIds }
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      onError('Template name is required')
+      return
+    }
+    if (form.documentIds.length === 0) {
+      onError('Add at least one document to the template')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const existing = templates.find(template => template.id === editingId)
+      if (existing) {
+        await templateService.updateTemplate(existing, {
+          name: form.name,
+          description: form.description,
+          documentIds: form.documentIds,
+        })
+        onSuccess('Template updated successfully')
+      } else {
+        await templateService.createTemplate(form)
+        onSuccess('Template created successfully')
+      }
+      handleCancel()
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save template')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: PacketTemplate) => {
+    if (!confirm(`Are you sure you want to delete the template "${template.name}"?`)) return
+
+    try {
+      setSaving(true)
+      await templateService.deleteTemplate(template.id)
+      onSuccess('Template deleted successfully')
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete template')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const getProductName = (productType: string) =>
+    products.find(product => product.id === productType)?.name || productType
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+  const labelClass = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Packet Templates</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Company-wide document sets users can apply in one click</p>
+        </div>
+        {!readOnly && editingId === null && products.length > 0 && (
+          <button onClick={startCreate} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <Plus className="inline-block w-4 h-4 mr-2" />
+            Add Template
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="border border-blue-300 dark:border-blue-700 rounded-lg p-4 mb-4 space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Template Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                placeholder="Standard Multifamily Structural Floor"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Product</label>
+              <select
+                value={form.productType}
+                onChange={(e) => changeProduct(e.target.value)}
+                disabled={!!editingId}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                {products.map(product => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={inputClass}
+              placeholder="When to use this template"
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Documents (in packet order)</label>
+            {form.documentIds.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">No documents yet.</p>
+            ) : (
+              <ol className="space-y-1 mb-2">
+                {form.documentIds.map((id, index) => {
+                  const doc = documentById.get(id)
+                  return (
+                    <li key={id} className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <span className="w-6 text-gray-500">{index + 1}.</span>
+                      <span className="flex-1 truncate text-gray-900 dark:text-white">{doc?.name || 'Deleted document'}</span>
+                      {doc?.required && (
+                        <span className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-300" title="Required documents cannot be removed">
+                          <Lock className="w-3 h-3" />
+                          Required
+                        </span>
+                      )}
+                      <button
+                        onClick={() => moveDocument(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-600 dark:text-gray-400 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveDocument(index, 1)}
+                        disabled={index === form.documentIds.length - 1}
+                        className="p-1 text-gray-600 dark:text-gray-400 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeDocument(id)}
+                        disabled={doc?.required}
+                        className="p-1 text-red-600 dark:text-red-400 disabled:opacity-30"
+                        title="Remove"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+            <select
+              value=""
+              onChange={(e) => addDocument(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Add a document...</option>
+              {productDocuments
+                .filter(doc => !form.documentIds.includes(doc.id))
+                .map(doc => (
+                  <option key={doc.id} value={doc.id}>{doc.name}</option>
+                ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button onClick={handleCancel} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {loading && templates.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">Loading templates...</div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No templates yet. Save one from the document step of the wizard or add one here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map(template => (
+            <div key={template.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex items-start justify-between">
+              <div className="flex items-start gap-3 flex-1 min-w-0">
+                <Layers className="w-10 h-10 text-blue-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">{template.name}</h3>
+                  {template.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{template.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {getProductName(template.productType)} · {template.documentIds.length} document(s)
+                  </p>
+                </div>
+              </div>
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <button onClick={() => startEdit(template)} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors">
+                    <Edit2 className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => handleDelete(template)} disabled={saving} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors">
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { Edit2, Save, X } from 'lucide-react'
+import { documentTypeConfig } from '@/data/documents'
+import { typePriorityService } from '@/services/typePriorityService'
+import { getTypePriority, sortDocumentTypes, type TypePriorities } from '@/utils/autoArrange'
+import type { DocumentType } from '@/types'
+
+interface TypePriorityManagerProps {
+  priorities: TypePriorities
+  onChanged: () => Promise<void>
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+  readOnly?: boolean // Hide add, edit and delete actions
+}
+
+export default function TypePriorityManager({
+  priorities,
+  onChanged,
+  onError,
+  onSuccess,
+  readOnly = false,
+}: TypePriorityManagerProps) {
+  // null = not editing, otherwise the priorities being edited
+  const [form, setForm] = useState<TypePriorities | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const types = sortDocumentTypes(Object.keys(priorities), priorities)
+
+  const startEdit = () => {
+    setForm(Object.fromEntries(types.map(type => [type, getTypePriority(type, priorities)])))
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    try {
+      setSaving(true)
+      await typePriorityService.savePriorities(form)
+      onSuccess('Document type order updated successfully')
+      setForm(null)
+      await onChanged()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save document type order')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const typeLabel = (type: string) => documentTypeConfig[type as DocumentType]?.label || type
+
+  const inputClass = 'w-20 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Packet Order</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Document type order used by Auto-arrange; lower numbers come first</p>
+        </div>
+        {readOnly ? null : form === null ? (
+          <button onClick={startEdit} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <Edit2 className="inline-block w-4 h-4 mr-2" />
+            Edit Order
+          </button>
+        ) : (
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button onClick={() => setForm(null)} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ol className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2">
+        {types.map(type => (
+          <li key={type} className="flex items-center justify-between gap-2 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="truncate" title={type}>{typeLabel(type)}</span>
+            {form ? (
+              <input
+                type="number"
+                min={0}
+                value={form[type] ?? ''}
+                onChange={(e) => setForm({ ...form, [type]: Number(e.target.value) })}
+                className={inputClass}
+              />
+            ) : (
+              <span className="font-medium tabular-nums">{getTypePriority(type, priorities)}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react'
+import { Users, UserPlus, KeyRound, UserX, UserCheck, Save, X } from 'lucide-react'
+import { authService } from '@/services/authService'
+import { userAdminService } from '@/services/userAdminService'
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/permissions'
+import { formatDate } from '@/utils'
+import type { ManagedUser, UserRole } from '@/types'
+
+interface UserManagerProps {
+  currentUserId: string
+  onError: (message: string) => void
+  onSuccess: (message: string) => void
+}
+
+const emptyInvite = { email: '', role: 'sales_rep' as UserRole }
+
+/**
+ * Owner screen for onboarding and offboarding: invite users, assign roles,
+ * send password resets and deactivate accounts
+ */
+export default function UserManager({ currentUserId, onError, onSuccess }: UserManagerProps) {
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [loading, setLoading] = useState(false)
+  // null = closed, otherwise the invitation being written
+  const [invite, setInvite] = useState<typeof emptyInvite | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true)
+      setUsers(await userAdminService.listUsers())
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load users')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Runs one action for a user, then refreshes the list
+  const runAction = async (userId: string, action: () => Promise<string>) => {
+    try {
+      setBusyId(userId)
+      onSuccess(await action())
+      await loadUsers()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update user')
+      console.error(err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!invite) return
+    if (!invite.email.trim()) {
+      onError('Enter the email address to invite')
+      return
+    }
+
+    await runAction('invite', async () => {
+      const message = await userAdminService.inviteUser(invite.email, invite.role)
+      setInvite(null)
+      return message
+    })
+  }
+
+  const handleRoleChange = (user: ManagedUser, role: UserRole) => {
+    if (role === 'owner' && !confirm(`Make ${user.email} an owner? Owners can change everyone's role, including yours.`)) return
+
+    runAction(user.id, async () => {
+      await authService.updateUserRole(user.id, role)
+      return `${user.email} is now ${ROLE_LABELS[role].toLowerCase()}`
+    })
+  }
+
+  const handleResetPassword = (user: ManagedUser) => {
+    if (!confirm(`Send a password reset email to ${user.email}?`)) return
+    runAction(user.id, () => userAdminService.sendPasswordReset(user.id))
+  }
+
+  const handleToggleDeactivated = (user: ManagedUser) => {
+    if (!user.deactivated && !confirm(`Deactivate ${user.email}? They will no longer be able to sign in. Their projects are kept.`)) return
+    runAction(user.id, () => userAdminService.setDeactivated(user.id, !user.deactivated))
+  }
+
+  const describeSignIn = (user: ManagedUser) => {
+    if (user.lastSignInAt) return `Last signed in ${formatDate(user.lastSignInAt)}`
+    if (user.invitedAt) return `Invited ${formatDate(user.invitedAt)}, not signed in yet`
+    return 'Never signed in'
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white'
+  const labelClass = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'
+  const roleOptions = (Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+  ))
+
+  return (
+    <div className="glass-card dark:glass-card-dark p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-gray-500" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Users</h2>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Invite, offboard and assign roles. Invited users set their own password.</p>
+        </div>
+        {invite === null && (
+          <button onClick={() => setInvite(emptyInvite)} className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors">
+            <UserPlus className="inline-block w-4 h-4 mr-2" />
+            Invite User
+          </button>
+        )}
+      </div>
+
+      {invite !== null && (
+        <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Email</label>
+              <input
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                placeholder="rep@company.com"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Role</label>
+              <select
+                value={invite.role}
+                onChange={(e) => setInvite({ ...invite, role: e.target.value as UserRole })}
+                className={inputClass}
+              >
+                {roleOptions}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[invite.role]}</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleInvite} disabled={busyId !== null} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50">
+              <Save className="inline-block w-4 h-4 mr-2" />
+              {busyId === 'invite' ? 'Sending...' : 'Send Invitation'}
+            </button>
+            <button onClick={() => setInvite(null)} className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              <X className="inline-block w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading && users.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading users...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {users.map(user => {
+            const isSelf = user.id === currentUserId
+            return (
+              <li key={user.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">
+                    {user.email}
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    {user.deactivated && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded">
+                        Deactivated
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{describeSignIn(user)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    disabled={isSelf || busyId !== null}
+                    title={isSelf ? 'You cannot change your own role' : ROLE_DESCRIPTIONS[user.role]}
+                    className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white disabled:opacity-60"
+                  >
+                    {roleOptions}
+                  </select>
+                  <button
+                    onClick={() => handleResetPassword(user)}
+                    disabled={busyId !== null || user.deactivated}
+                    className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors disabled:opacity-40"
+                    title="Send password reset email"
+                  >
+                    <KeyRound className="w-4 h-4" />
+                  </button>
+                  {!isSelf && (
+                    <button
+                      onClick={() => handleToggleDeactivated(user)}
+                      disabled={busyId !== null}
+                      className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${user.deactivated
+                        ? 'text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/30'
+                        : 'text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30'}`}
+                      title={user.deactivated ? 'Reactivate' : 'Deactivate'}
+                    >
+                      {user.deactivated ? <UserCheck className="w-4 h-4" /> : <UserX className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
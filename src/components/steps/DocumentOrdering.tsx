@@ -1,5 +1,6 @@
 import { useState, useMemo, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
 import {
   DndContext,
   closestCenter,
@@ -24,12 +25,37 @@ import {
   TrashIcon,
   ChevronUpIcon,
   ChevronDownIcon,
-  DocumentCheckIcon
+  DocumentCheckIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  EyeIcon,
+  BookmarkIcon,
+  RectangleStackIcon,
+  LockClosedIcon,
+  BarsArrowDownIcon
 } from '@heroicons/react/24/outline'
 import { cn, generateId } from '@/utils'
 import { documentTypeConfig } from '@/data/documents'
 import { documentService } from '@/services/documentService'
-import type { SelectedDocument, DocumentType, Document } from '@/types'
+import { productService } from '@/services/productService'
+import { templateService } from '@/services/templateService'
+import { authService } from '@/services/authService'
+import { documentRuleService } from '@/services/documentRuleService'
+import { typePriorityService } from '@/services/typePriorityService'
+import { describeExpiry, getExpiryStatus, getSelectedExpiryIssues } from '@/utils/documentExpiry'
+import { formatPageRange, parsePageRange } from '@/utils/pageRanges'
+import { applyTemplate } from '@/utils/templates'
+import { getRequiredOverrides, includeRequiredDocuments } from '@/utils/requiredDocuments'
+import { evaluateDocumentRules } from '@/utils/documentRules'
+import { autoArrange, getDefaultTypePriorities, sortDocumentTypes } from '@/utils/autoArrange'
+import { describeMissingPermission, hasPermission } from '@/utils/permissions'
+import PdfThumbnail from '@/components/PdfThumbnail'
+import DocumentPreview from '@/components/DocumentPreview'
+import DocumentRuleFindings from '@/components/DocumentRuleFindings'
+import type { SelectedDocument, DocumentType, Document, DocumentRule, DocumentTextMatch, PacketTemplate, Product } from '@/types'
+
+// Shorter terms match too many pages to be useful
+const MIN_CONTENT_SEARCH_LENGTH = 3
 
 interface DocumentOrderingProps {
   formData: Partial<import('@/types').ProjectFormData>
@@ -46,9 +72,35 @@ interface SortableItemProps {
   onRemove: (id: string) => void
   onMoveUp: (id: string) => void
   onMoveDown: (id: string) => void
+  onPinVersion: (id: string, version?: number) => void
+  onPreview: (document: SelectedDocument) => void
+  onPageRangeChange: (id: string, pageRange: string) => void
+}
+
+// Render a search snippet with the matched terms (wrapped in ⟦ ⟧ by the database) highlighted
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(⟦[^⟧]*⟧)/).map((part, index) =>
+        part.startsWith('⟦') && part.endsWith('⟧')
+          ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">{part.slice(1, -1)}</mark>
+          : part
+      )}
+    </>
+  )
 }
 
-function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveDown }: SortableItemProps) {
+function SortableItem({
+  document,
+  index,
+  totalCount,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onPinVersion,
+  onPreview,
+  onPageRangeChange,
+}: SortableItemProps) {
   const {
     attributes,
     listeners,
@@ -63,6 +115,32 @@ function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveD
     transition,
   }
 
+  const currentVersion = document.document.currentVersion
+  const expiryStatus = getExpiryStatus(document.document)
+
+  // The range is edited as free text and only applied once it parses
+  const [pageRangeInput, setPageRangeInput] = useState(document.pageRange || '')
+  const [pageRangeError, setPageRangeError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPageRangeInput(document.pageRange || '')
+    setPageRangeError(null)
+  }, [document.pageRange])
+
+  const applyPageRange = () => {
+    const { pages, error } = parsePageRange(pageRangeInput)
+    if (error) {
+      setPageRangeError(error)
+      return
+    }
+    setPageRangeError(null)
+    const normalized = pages ? formatPageRange(pages) : ''
+    setPageRangeInput(normalized)
+    if (normalized !== (document.pageRange || '')) {
+      onPageRangeChange(document.id, normalized)
+    }
+  }
+
   return (
     <motion.div
       ref={setNodeRef}
@@ -94,15 +172,80 @@ function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveD
           {index + 1}
         </div>
 
+        {/* First Page */}
+        <button
+          onClick={() => onPreview(document)}
+          className="hidden sm:block hover:ring-2 hover:ring-primary-300 rounded transition-shadow"
+          title="Preview document"
+        >
+          <PdfThumbnail document={document.document} pinnedVersion={document.pinnedVersion} width={48} />
+        </button>
+
         {/* Document Info */}
         <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-gray-900 dark:text-white truncate">
             {document.document.name}
+            {document.document.required && (
+              <LockClosedIcon className="inline-block w-4 h-4 ml-2 text-amber-500" title="Required document" />
+            )}
           </h3>
+          {(expiryStatus === 'expired' || expiryStatus === 'expiring') && (
+            <p className={cn(
+              "text-xs font-medium",
+              expiryStatus === 'expired' ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+            )}>
+              {describeExpiry(document.document)}
+            </p>
+          )}
+          <div className="mt-1 flex flex-wrap items-center gap-2">
+            {currentVersion > 1 && (
+              <select
+                value={document.pinnedVersion || ''}
+                onChange={(e) => onPinVersion(document.id, e.target.value ? Number(e.target.value) : undefined)}
+                className="text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                title="Packets use the latest version unless pinned"
+              >
+                <option value="">Latest (v{currentVersion})</option>
+                {Array.from({ length: currentVersion }, (_, i) => currentVersion - i).map(version => (
+                  <option key={version} value={version}>Pinned to v{version}</option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+              Pages
+              <input
+                type="text"
+                value={pageRangeInput}
+                onChange={(e) => setPageRangeInput(e.target.value)}
+                onBlur={applyPageRange}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') applyPageRange()
+                }}
+                placeholder="All"
+                className={cn(
+                  "w-28 px-2 py-1 border rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+                  pageRangeError ? "border-red-400" : "border-gray-300 dark:border-gray-600"
+                )}
+                title='Pages to include, e.g. "1-3, 7". Leave empty for the whole document.'
+              />
+            </label>
+          </div>
+          {pageRangeError && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">{pageRangeError}</p>
+          )}
         </div>
 
         {/* Actions */}
         <div className="flex items-center gap-1">
+          {/* Preview Button */}
+          <button
+            onClick={() => onPreview(document)}
+            className="btn btn-ghost btn-sm p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Preview document"
+          >
+            <EyeIcon className="w-4 h-4" />
+          </button>
+
           {/* Move Up Button */}
           <button
             onClick={() => onMoveUp(document.id)}
@@ -157,15 +300,64 @@ export default function DocumentOrdering({
   const [searchTerm, setSearchTerm] = useState('')
   const [filterType, setFilterType] = useState<DocumentType | 'all'>('all')
   const [availableDocuments, setAvailableDocuments] = useState<Document[]>([])
+  const [product, setProduct] = useState<Product | null>(null)
   const [loading, setLoading] = useState(false)
+  const [contentMatches, setContentMatches] = useState<DocumentTextMatch[]>([])
+  const [searchingContent, setSearchingContent] = useState(false)
+  const [contentSearchFailed, setContentSearchFailed] = useState(false)
+  const [templates, setTemplates] = useState<PacketTemplate[]>([])
+  const [rules, setRules] = useState<DocumentRule[]>([])
+  const [typePriorities, setTypePriorities] = useState(getDefaultTypePriorities)
+  const [selectedTemplateId, setSelectedTemplateId] = useState('')
+  // null = closed, otherwise the "Save as template" form
+  const [templateForm, setTemplateForm] = useState<{ name: string; description: string } | null>(null)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  // selectedId is set when previewing a selected document, whose pages can then be picked
+  const [previewing, setPreviewing] = useState<{ document: Document; pinnedVersion?: number; selectedId?: string } | null>(null)
 
   useEffect(() => {
     const loadDocuments = async () => {
       try {
         setLoading(true)
         if (formData.productType) {
-          const docs = await documentService.getDocumentsByProductType(formData.productType)
+          const [docs, loadedProduct] = await Promise.all([
+            documentService.getDocumentsByProductType(formData.productType),
+            productService.getProduct(formData.productType),
+          ])
           setAvailableDocuments(docs)
+          setProduct(loadedProduct)
+          loadTemplates()
+          loadRules()
+          typePriorityService.getPriorities()
+            .then(setTypePriorities)
+            .catch(error => console.error('Error loading document type priorities:', error))
+
+          let selection = selectedDocuments
+          // Start a fresh packet from the product's default documents
+          if (loadedProduct && selectedDocuments.length === 0) {
+            const defaults = loadedProduct.defaultDocumentIds
+              .map(id => docs.find(doc => doc.id === id))
+              .filter((doc): doc is Document => !!doc)
+            selection = defaults.map((document, index) => ({
+              id: generateId(),
+              document,
+              order: index,
+              selected: true,
+            }))
+          } else if (selectedDocuments.length > 0) {
+            // Saved selections hold copies of the documents that may predate a new version
+            const byId = new Map(docs.map(doc => [doc.id, doc]))
+            selection = selectedDocuments.map(doc => ({
+              ...doc,
+              document: byId.get(doc.document.id) || doc.document,
+            }))
+          }
+
+          // Required documents are always in the packet unless left out with a reason
+          selection = includeRequiredDocuments(selection, docs)
+          if (selection.length > 0) {
+            onUpdateSelectedDocuments(selection)
+          }
         }
       } catch (error) {
         console.error('Error loading documents:', error)
@@ -176,6 +368,74 @@ export default function DocumentOrdering({
     loadDocuments()
   }, [formData.productType])
 
+  const loadRules = async () => {
+    try {
+      setRules(await documentRuleService.getAllRules())
+    } catch (error) {
+      console.error('Error loading document rules:', error)
+    }
+  }
+
+  const loadTemplates = async () => {
+    if (!formData.productType) return
+    try {
+      setTemplates(await templateService.getTemplates(formData.productType))
+    } catch (error) {
+      console.error('Error loading packet templates:', error)
+    }
+  }
+
+  // Replace the selection with the template's documents, in its order
+  const handleApplyTemplate = () => {
+    const template = templates.find(t => t.id === selectedTemplateId)
+    if (!template) return
+    if (sortedDocuments.length > 0 && !confirm(`Replace the current selection with "${template.name}"?`)) return
+
+    const { selectedDocuments: templateDocuments, missing } = applyTemplate(template, availableDocuments)
+    onUpdateSelectedDocuments(templateDocuments)
+    if (missing > 0) {
+      toast(`Applied "${template.name}"; ${missing} deleted document(s) were skipped.`)
+    } else {
+      toast.success(`Applied "${template.name}"`)
+    }
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!templateForm || !formData.productType) return
+    if (!templateForm.name.trim()) {
+      toast.error('Give the template a name.')
+      return
+    }
+    const profile = await authService.getProfile().catch(() => null)
+    if (!profile) {
+      toast('Sign in to save company-wide templates.')
+      return
+    }
+    if (!hasPermission(profile.role, 'manageTemplates')) {
+      toast(describeMissingPermission('manageTemplates'))
+      return
+    }
+
+    try {
+      setSavingTemplate(true)
+      const template = await templateService.createTemplate({
+        name: templateForm.name,
+        description: templateForm.description,
+        productType: formData.productType,
+        documentIds: sortedDocuments.map(doc => doc.document.id),
+      })
+      toast.success(`Saved template "${template.name}"`)
+      setTemplateForm(null)
+      setSelectedTemplateId(template.id)
+      await loadTemplates()
+    } catch (error) {
+      console.error('Error saving packet template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -193,32 +453,74 @@ export default function DocumentOrdering({
     })
   )
 
+  // Search inside the documents' extracted text once the user pauses typing
+  useEffect(() => {
+    const query = searchTerm.trim()
+    if (query.length < MIN_CONTENT_SEARCH_LENGTH) {
+      setContentMatches([])
+      setSearchingContent(false)
+      setContentSearchFailed(false)
+      return
+    }
+
+    let cancelled = false
+    setSearchingContent(true)
+    const timer = setTimeout(async () => {
+      try {
+        const matches = await documentService.searchDocumentText(query, formData.productType)
+        if (!cancelled) {
+          setContentMatches(matches)
+          setContentSearchFailed(false)
+        }
+      } catch (error) {
+        console.error('Error searching document content:', error)
+        if (!cancelled) {
+          setContentMatches([])
+          setContentSearchFailed(true)
+        }
+      } finally {
+        if (!cancelled) setSearchingContent(false)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchTerm, formData.productType])
+
+  // Content matches per document, in page order
+  const matchesByDocument = useMemo(() => {
+    const grouped = new Map<string, DocumentTextMatch[]>()
+    for (const match of contentMatches) {
+      grouped.set(match.documentId, [...(grouped.get(match.documentId) || []), match])
+    }
+    grouped.forEach(matches => matches.sort((a, b) => a.pageNumber - b.pageNumber))
+    return grouped
+  }, [contentMatches])
+
   // Filter and search documents for selection
   const filteredDocuments = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
     return availableDocuments.filter(doc => {
       // Filter by product type first - now using single productType field
       const matchesProductType = formData.productType 
         ? doc.productType === formData.productType
         : true
       
-      const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           doc.description.toLowerCase().includes(searchTerm.toLowerCase())
-      const matchesFilter = filterType === 'all' || doc.type === filterType
+      const matchesSearch = doc.name.toLowerCase().includes(term) ||
+                           doc.description.toLowerCase().includes(term) ||
+                           matchesByDocument.has(doc.id)
+      const matchesFilter = filterType === 'all' || doc.docType === filterType
       return matchesProductType && matchesSearch && matchesFilter
     })
-  }, [formData.productType, searchTerm, filterType])
+  }, [availableDocuments, formData.productType, searchTerm, filterType, matchesByDocument])
 
   // Get unique document types for filter
   const documentTypes = useMemo(() => {
-    const types = Array.from(new Set(availableDocuments.map(doc => doc.type)))
-    return types.sort((a, b) => {
-      const configA = documentTypeConfig[a as DocumentType]
-      const configB = documentTypeConfig[b as DocumentType]
-      const priorityA = configA?.priority ?? 99
-      const priorityB = configB?.priority ?? 99
-      return priorityA - priorityB
-    })
-  }, [availableDocuments])
+    const types = Array.from(new Set(availableDocuments.map(doc => doc.docType)))
+    return sortDocumentTypes(types, typePriorities)
+  }, [availableDocuments, typePriorities])
 
   // Filter only selected documents and sort by order
   const sortedDocuments = selectedDocuments
@@ -230,20 +532,40 @@ export default function DocumentOrdering({
     return selectedDocuments.some(doc => doc.document.id === documentId && doc.selected)
   }
 
+  // Required documents can only be left out with a reason, which is saved with the project.
+  // Returns null when the user cancels.
+  const askRemovalReason = (document: Document): string | null | undefined => {
+    if (!document.required) return undefined
+
+    const reason = prompt(
+      `"${document.name}" is required in every ${product?.name || ''} packet.\n` +
+      'Enter the reason for leaving it out (e.g. "Owner waived MSDS"):'
+    )
+    if (reason === null) return null
+    if (!reason.trim()) {
+      toast.error('A reason is needed to leave out a required document.')
+      return null
+    }
+    return reason.trim()
+  }
+
   // Toggle document selection
   const toggleDocument = (document: typeof availableDocuments[0]) => {
     const isSelected = isDocumentSelected(document.id)
 
     if (isSelected) {
+      const removalReason = askRemovalReason(document)
+      if (removalReason === null) return
+
       const updated = selectedDocuments.map(doc =>
-        doc.document.id === document.id ? { ...doc, selected: false } : doc
+        doc.document.id === document.id ? { ...doc, selected: false, removalReason } : doc
       )
       onUpdateSelectedDocuments(updated)
     } else {
       const existingDoc = selectedDocuments.find(doc => doc.document.id === document.id)
       if (existingDoc) {
         const updated = selectedDocuments.map(doc =>
-          doc.document.id === document.id ? { ...doc, selected: true } : doc
+          doc.document.id === document.id ? { ...doc, selected: true, removalReason: undefined } : doc
         )
         onUpdateSelectedDocuments(updated)
       } else {
@@ -278,9 +600,32 @@ export default function DocumentOrdering({
     }
   }
 
+  const pinDocumentVersion = (documentId: string, version?: number) => {
+    const updatedDocuments = selectedDocuments.map(doc =>
+      doc.id === documentId ? { ...doc, pinnedVersion: version } : doc
+    )
+    onUpdateSelectedDocuments(updatedDocuments)
+  }
+
+  const setDocumentPageRange = (documentId: string, pageRange: string) => {
+    const updatedDocuments = selectedDocuments.map(doc =>
+      doc.id === documentId ? { ...doc, pageRange: pageRange || undefined } : doc
+    )
+    onUpdateSelectedDocuments(updatedDocuments)
+  }
+
+  // Standard packet order: by document type priority, then numerically by name
+  const handleAutoArrange = () => {
+    onUpdateSelectedDocuments(autoArrange(selectedDocuments, typePriorities))
+  }
+
   const removeDocument = (documentId: string) => {
+    const removed = selectedDocuments.find(doc => doc.id === documentId)
+    const removalReason = removed ? askRemovalReason(removed.document) : undefined
+    if (removalReason === null) return
+
     const updatedDocuments = selectedDocuments.map(doc =>
-      doc.id === documentId ? { ...doc, selected: false } : doc
+      doc.id === documentId ? { ...doc, selected: false, removalReason } : doc
     )
     onUpdateSelectedDocuments(updatedDocuments)
   }
@@ -325,7 +670,11 @@ export default function DocumentOrdering({
     }
   }
 
+  const requiredOverrides = getRequiredOverrides(selectedDocuments)
+  const ruleEvaluation = evaluateDocumentRules(rules, selectedDocuments, availableDocuments)
+  const hasRuleFindings = Object.values(ruleEvaluation).some(findings => findings.length > 0)
   const canProceed = sortedDocuments.length > 0
+  const expiryIssues = getSelectedExpiryIssues(selectedDocuments)
 
   return (
     <motion.div
@@ -363,6 +712,117 @@ export default function DocumentOrdering({
             Choose which documents to include in your PDF packet.
           </p>
 
+          {/* Templates */}
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <div className="relative flex-1">
+              <RectangleStackIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => setSelectedTemplateId(e.target.value)}
+                disabled={templates.length === 0}
+                className="form-input w-full pl-10 disabled:opacity-60"
+              >
+                <option value="">{templates.length === 0 ? 'No templates for this product yet' : 'Start from a template...'}</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.documentIds.length} documents)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleApplyTemplate}
+              disabled={!selectedTemplateId}
+              className="btn btn-secondary disabled:opacity-50"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => setTemplateForm(templateForm ? null : { name: '', description: '' })}
+              disabled={sortedDocuments.length === 0}
+              className="btn btn-ghost disabled:opacity-50"
+              title={sortedDocuments.length === 0 ? 'Select documents to save them as a template' : undefined}
+            >
+              <BookmarkIcon className="w-5 h-5 mr-1" />
+              Save as template
+            </button>
+          </div>
+          {selectedTemplateId && templates.find(t => t.id === selectedTemplateId)?.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 mb-4">
+              {templates.find(t => t.id === selectedTemplateId)!.description}
+            </p>
+          )}
+          <AnimatePresence>
+            {templateForm && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="overflow-hidden"
+              >
+                <div className="flex flex-col sm:flex-row gap-3 mb-4 p-4 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                  <input
+                    type="text"
+                    value={templateForm.name}
+                    onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+                    placeholder="Template name, e.g. Standard Multifamily"
+                    className="form-input flex-1"
+                    autoFocus
+                  />
+                  <input
+                    type="text"
+                    value={templateForm.description}
+                    onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+                    placeholder="Description (optional)"
+                    className="form-input flex-1"
+                  />
+                  <button onClick={handleSaveTemplate} disabled={savingTemplate} className="btn btn-primary disabled:opacity-50">
+                    {savingTemplate ? 'Saving...' : `Save ${sortedDocuments.length} documents`}
+                  </button>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+
+          {/* Search */}
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <div className="relative flex-1">
+              <MagnifyingGlassIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder='Search names and document text, e.g. "UL L528" or "ASTM E84"'
+                className="form-input w-full pl-10"
+              />
+            </div>
+            {documentTypes.length > 1 && (
+              <select
+                value={filterType}
+                onChange={(e) => setFilterType(e.target.value as DocumentType | 'all')}
+                className="form-input sm:w-56"
+              >
+                <option value="all">All types</option>
+                {documentTypes.map(type => (
+                  <option key={type} value={type}>
+                    {documentTypeConfig[type as DocumentType].label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {searchTerm.trim().length >= MIN_CONTENT_SEARCH_LENGTH && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+              {searchingContent
+                ? 'Searching document text...'
+                : contentSearchFailed
+                ? 'Document text could not be searched; only names and descriptions were matched'
+                : `Text matches in ${matchesByDocument.size} document${matchesByDocument.size !== 1 ? 's' : ''}`}
+            </p>
+          )}
 
           {/* Selected Count */}
           <motion.div
@@ -380,6 +840,34 @@ export default function DocumentOrdering({
             </p>
           </motion.div>
 
+          {/* Required Documents Left Out */}
+          {requiredOverrides.length > 0 && (
+            <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-800 dark:text-amber-200 space-y-2">
+              <p className="font-medium">Required documents left out of this packet:</p>
+              {requiredOverrides.map(doc => (
+                <div key={doc.id} className="flex items-center justify-between gap-4">
+                  <span>
+                    <strong>{doc.document.name}</strong> — {doc.removalReason}
+                  </span>
+                  <button onClick={() => toggleDocument(doc.document)} className="btn btn-ghost btn-sm flex-shrink-0">
+                    Add back
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Document Rules */}
+          {hasRuleFindings && (
+            <div className="mb-6">
+              <DocumentRuleFindings
+                evaluation={ruleEvaluation}
+                onAdd={(document) => !isDocumentSelected(document.id) && toggleDocument(document)}
+                onRemove={(document) => isDocumentSelected(document.id) && toggleDocument(document)}
+              />
+            </div>
+          )}
+
           {/* Loading State */}
           {loading && (
             <div className="text-center py-8">
@@ -435,9 +923,44 @@ export default function DocumentOrdering({
                     </div>
 
                     {/* Document Info */}
-                    <h4 className="font-medium text-sm text-gray-900 dark:text-white">
+                    <h4 className="font-medium text-sm text-gray-900 dark:text-white pr-8">
                       {document.name}
                     </h4>
+                    {document.required && (
+                      <p className="flex items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-400 mt-1">
+                        <LockClosedIcon className="w-3.5 h-3.5" />
+                        Required
+                      </p>
+                    )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setPreviewing({ document })
+                      }}
+                      className="mt-1 inline-flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                    >
+                      <EyeIcon className="w-3.5 h-3.5" />
+                      Preview
+                    </button>
+                    {getExpiryStatus(document) === 'expired' && (
+                      <p className="text-xs font-medium text-red-600 dark:text-red-400 mt-1">
+                        {describeExpiry(document)}
+                      </p>
+                    )}
+
+                    {/* Text Matches */}
+                    {matchesByDocument.has(document.id) && (
+                      <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                        <p className="font-medium text-gray-500 dark:text-gray-400">
+                          Found on page {matchesByDocument.get(document.id)!.map(match => match.pageNumber).join(', ')}
+                        </p>
+                        {matchesByDocument.get(document.id)!.slice(0, 2).map(match => (
+                          <p key={match.pageNumber} className="line-clamp-3">
+                            <span className="font-medium">p. {match.pageNumber}:</span> <Snippet text={match.snippet} />
+                          </p>
+                        ))}
+                      </div>
+                    )}
                   </motion.div>
                 )
               })}
@@ -450,7 +973,7 @@ export default function DocumentOrdering({
             <div className="text-center py-8">
               <p className="text-gray-500 dark:text-gray-400">
                 {formData.productType
-                  ? `No documents available for ${formData.productType === 'structural-floor' ? 'Structural Floor Panel' : 'Underlayment'}.`
+                  ? `No documents available for ${product?.name || formData.productType}.`
                   : 'No documents found.'}
               </p>
             </div>
@@ -460,9 +983,21 @@ export default function DocumentOrdering({
         {/* Document Ordering Section */}
         {sortedDocuments.length > 0 && (
           <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              Arrange Document Order
-            </h3>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Arrange Document Order
+              </h3>
+              {sortedDocuments.length > 1 && (
+                <button
+                  onClick={handleAutoArrange}
+                  className="btn btn-secondary btn-sm"
+                  title="Order by document type (TDS, evaluation reports, installation...) and then by name"
+                >
+                  <BarsArrowDownIcon className="w-4 h-4 mr-1" />
+                  Auto-arrange
+                </button>
+              )}
+            </div>
 
             {/* Instructions */}
             <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 mb-6">
@@ -487,6 +1022,31 @@ export default function DocumentOrdering({
               </p>
             </div>
 
+            {/* Expiry Warning */}
+            {(expiryIssues.expired.length > 0 || expiryIssues.expiring.length > 0) && (
+              <div className={cn(
+                "flex gap-3 rounded-lg p-4 mb-6 text-sm",
+                expiryIssues.expired.length > 0
+                  ? "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200"
+                  : "bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200"
+              )}>
+                <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                <div>
+                  {expiryIssues.expired.length > 0 && (
+                    <p>
+                      <strong>Expired:</strong> {expiryIssues.expired.map(doc => doc.name).join(', ')}.
+                      {' '}Building officials reject expired evaluation reports; remove them or ask an admin for the reissued report.
+                    </p>
+                  )}
+                  {expiryIssues.expiring.length > 0 && (
+                    <p>
+                      <strong>Expiring soon:</strong> {expiryIssues.expiring.map(doc => `${doc.name} (${describeExpiry(doc).toLowerCase()})`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Document List */}
             <DndContext
               sensors={sensors}
@@ -508,6 +1068,9 @@ export default function DocumentOrdering({
                         onRemove={removeDocument}
                         onMoveUp={moveDocumentUp}
                         onMoveDown={moveDocumentDown}
+                        onPinVersion={pinDocumentVersion}
+                        onPreview={(doc) => setPreviewing({ document: doc.document, pinnedVersion: doc.pinnedVersion, selectedId: doc.id })}
+                        onPageRangeChange={setDocumentPageRange}
                       />
                     ))}
                   </AnimatePresence>
@@ -562,6 +1125,21 @@ export default function DocumentOrdering({
           </motion.button>
         </div>
       </div>
+
+      {/* Document Preview */}
+      <AnimatePresence>
+        {previewing && (
+          <DocumentPreview
+            document={previewing.document}
+            pinnedVersion={previewing.pinnedVersion}
+            pageRange={previewing.selectedId ? selectedDocuments.find(doc => doc.id === previewing.selectedId)?.pageRange : undefined}
+            onPageRangeChange={previewing.selectedId
+              ? (pageRange) => setDocumentPageRange(previewing.selectedId!, pageRange)
+              : undefined}
+            onClose={() => setPreviewing(null)}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   )
 }
@@ -1,7 +1,23 @@
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
 import { pdfService } from '@/services/pdfService';
-import type { SelectedDocument, ProjectFormData } from '@/types';
+import { submittalCategoryService } from '@/services/submittalCategoryService';
+import { projectService } from '@/services/projectService';
+import { documentService } from '@/services/documentService';
+import { documentRuleService } from '@/services/documentRuleService';
+import { authService } from '@/services/authService';
+import { auditService } from '@/services/auditService';
+import type { SelectedDocument, ProjectFormData, PacketOptions, PacketEngine, SubmittalCategory, Project, Document, DocumentRule } from '@/types';
 import { cn, formatFileSize } from '@/utils';
+import { buildSubmittalChecklist, getUntaggedDocuments, groupChecklist } from '@/utils/submittalChecklist';
+import { planNextRevision, snapshotDocuments, summarizeRevisionDiff } from '@/utils/revisions';
+import { describeExpiry, getSelectedExpiryIssues } from '@/utils/documentExpiry';
+import { getMissingRequiredDocuments, getRequiredOverrides } from '@/utils/requiredDocuments';
+import { evaluateDocumentRules, hasBlockingRuleFindings } from '@/utils/documentRules';
+import PageStampSettings from '@/components/PageStampSettings';
+import RevisionChanges from '@/components/RevisionChanges';
+import DocumentRuleFindings from '@/components/DocumentRuleFindings';
 
 interface PacketGenerationProps {
   selectedDocuments: SelectedDocument[];
@@ -10,120 +26,169 @@ interface PacketGenerationProps {
   isGenerating: boolean;
   onSetGenerating: (isGenerating: boolean) => void;
   formData: Partial<ProjectFormData>;
+  packetOptions: PacketOptions;
+  onUpdatePacketOptions: (options: Partial<PacketOptions>) => void;
+  projectId?: string;
+  onProjectSaved: (projectId: string) => void;
 }
 
+const engineOptions: Array<{ value: PacketEngine; label: string; description: string }> = [
+  { value: 'auto', label: 'Automatic', description: 'Use the cloud worker, and build in the browser if it cannot be reached. Packets with a table of contents, bookmarks, dividers, stamps, page ranges or a revision are built in the browser; the default layout has a table of contents.' },
+  { value: 'worker', label: 'Cloud worker', description: 'Use the cloud worker and report an error if it fails. Packets with a table of contents, bookmarks, dividers, stamps, page ranges or a revision are still built in the browser until the worker supports them.' },
+  { value: 'local', label: 'In browser', description: 'Build the packet on this device. Works without the worker.' },
+];
+
 const PacketGeneration = ({
   selectedDocuments,
   onPrevious,
   onNext,
   isGenerating,
   onSetGenerating,
-  formData
+  formData,
+  packetOptions,
+  onUpdatePacketOptions,
+  projectId,
+  onProjectSaved
 }: PacketGenerationProps) => {
   // Calculate total size
   const totalSize = selectedDocuments.filter(doc => doc.selected).reduce((sum, doc) => sum + (doc.document.size || 0), 0);
   const sortedDocs = selectedDocuments.filter(doc => doc.selected).sort((a, b) => a.order - b.order);
 
-  // Helper function to map selected documents to submittalType checkboxes
-  const getSubmittalTypeFromDocuments = () => {
-    const submittalType = {
-      tds: false,
-      threePartSpecs: false,
-      testReportIccEsr5194: false,
-      testReportIccEsr5192: false,
-      testReportIccEsl1645: false,
-      fireAssembly: false,
-      fireAssembly01: false,
-      fireAssembly02: false,
-      fireAssembly03: false,
-      fireAssembly04: false,
-      fireAssembly05: false,
-      fireAssembly06: false,
-      fireAssembly07: false,
-      fireAssembly08: false,
-      fireAssembly09: false,
-      msds: false,
-      leedGuide: false,
-      installationGuide: false,
-      warranty: false,
-      samples: false,
-      other: false,
-    };
-
-    // Populate submittalType based on selected documents
-    sortedDocs.forEach(doc => {
-      const docName = doc.document.name.toLowerCase();
-      const docType = doc.document.type.toLowerCase();
-      
-      if (docName.includes('technical data sheet') || docType === 'tds') {
-        submittalType.tds = true;
-      }
-      if (docName.includes('3-part spec') || docType === 'partspec') {
-        submittalType.threePartSpecs = true;
-      }
-      if (docName.includes('esr-5194') || docName.includes('esr 5194')) {
-        submittalType.testReportIccEsr5194 = true;
-      }
-      if (docName.includes('esr-5192') || docName.includes('esr 5192')) {
-        submittalType.testReportIccEsr5192 = true;
-      }
-      if (docName.includes('esl-1645') || docName.includes('esl 1645') || docName.includes('acoustical')) {
-        submittalType.testReportIccEsl1645 = true;
-      }
-      if (docName.includes('fire assembly 01')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly01 = true;
-      }
-      if (docName.includes('fire assembly 02')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly02 = true;
-      }
-      if (docName.includes('fire assembly 03')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly03 = true;
-      }
-      if (docName.includes('fire assembly 04')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly04 = true;
-      }
-      if (docName.includes('fire assembly 05')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly05 = true;
-      }
-      if (docName.includes('fire assembly 06')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly06 = true;
-      }
-      if (docName.includes('fire assembly 07')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly07 = true;
-      }
-      if (docName.includes('fire assembly 08')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly08 = true;
-      }
-      if (docName.includes('fire assembly 09')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly09 = true;
-      }
-      if (docName.includes('msds') || docName.includes('material safety') || docType === 'msds') {
-        submittalType.msds = true;
-      }
-      if (docName.includes('leed') || docType === 'leed') {
-        submittalType.leedGuide = true;
-      }
-      if (docName.includes('installation') || docType === 'installation') {
-        submittalType.installationGuide = true;
-      }
-      if (docName.includes('warranty') || docType === 'warranty') {
-        submittalType.warranty = true;
-      }
-    });
+  const [categories, setCategories] = useState<SubmittalCategory[]>([]);
+  const [categoriesError, setCategoriesError] = useState<string | null>(null);
 
-    return submittalType;
+  const loadCategories = async () => {
+    try {
+      setCategories(await submittalCategoryService.getAllCategories());
+      setCategoriesError(null);
+    } catch (error) {
+      console.error('Error loading submittal categories:', error);
+      setCategoriesError('The submittal checklist could not be loaded, so nothing will be checked on the cover page.');
+      toast.error('Failed to load the submittal checklist');
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  // The saved project supplies the revision history for the cover page
+  const [project, setProject] = useState<Project | null>(null);
+
+  useEffect(() => {
+    if (!projectId) {
+      setProject(null);
+      return;
+    }
+    projectService.getProject(projectId)
+      .then(setProject)
+      .catch(error => {
+        console.error('Error loading project:', error);
+        setProject(null);
+      });
+  }, [projectId]);
+
+  const documentSnapshot = snapshotDocuments(sortedDocs);
+  const nextRevision = project ? planNextRevision(project.packets, documentSnapshot) : null;
+
+  // The cover-page checklist comes from the category tags of the selected documents
+  const submittalChecklist = buildSubmittalChecklist(categories, sortedDocs);
+  const untaggedDocs = getUntaggedDocuments(categories, sortedDocs);
+  const checkedGroups = groupChecklist(submittalChecklist.filter(item => item.checked));
+
+  // How much of the worker's PDF has arrived, e.g. '45%' or '12.5 MB' when the size is unknown
+  const [downloadProgress, setDownloadProgress] = useState<string | null>(null);
+  const generatingLabel = downloadProgress ? `Downloading ${downloadProgress}...` : 'Generating...';
+
+  const generateOptions = {
+    ...packetOptions,
+    onFallback: () => {
+      setDownloadProgress(null);
+      toast('PDF worker unavailable, building the packet in your browser instead.');
+    },
+    onWorkerUnsupported: (features: string[]) => {
+      const list = features.length > 1
+        ? `${features.slice(0, -1).join(', ')} and ${features[features.length - 1]}`
+        : features[0];
+      toast(`The PDF worker does not support ${list} yet, so the packet is being built in your browser.`);
+    },
+    onProgress: (receivedBytes: number, totalBytes?: number) => {
+      setDownloadProgress(totalBytes
+        ? `${Math.min(100, Math.round((receivedBytes / totalBytes) * 100))}%`
+        : formatFileSize(receivedBytes));
+    },
+  };
+
+  // Expired evaluation reports get a submittal rejected, so they need an explicit override
+  const expiryIssues = getSelectedExpiryIssues(sortedDocs);
+  const [includeExpired, setIncludeExpired] = useState(false);
+  const blockedByExpiry = expiryIssues.expired.length > 0 && !includeExpired;
+
+  // Required documents must be in the packet or left out with a reason
+  const [productDocuments, setProductDocuments] = useState<Document[]>([]);
+
+  useEffect(() => {
+    if (!formData.productType) return;
+    documentService.getDocumentsByProductType(formData.productType)
+      .then(setProductDocuments)
+      .catch(error => console.error('Error loading product documents:', error));
+  }, [formData.productType]);
+
+  const missingRequired = getMissingRequiredDocuments(selectedDocuments, productDocuments);
+  const requiredOverrides = getRequiredOverrides(selectedDocuments);
+  const blockedByRequired = missingRequired.length > 0;
+
+  // Document rules are checked again here in case the selection changed since arranging
+  const [rules, setRules] = useState<DocumentRule[]>([]);
+  const [ignoreRuleFindings, setIgnoreRuleFindings] = useState(false);
+
+  useEffect(() => {
+    documentRuleService.getAllRules()
+      .then(setRules)
+      .catch(error => console.error('Error loading document rules:', error));
+  }, []);
+
+  const ruleEvaluation = evaluateDocumentRules(rules, selectedDocuments, productDocuments);
+  const blockedByRules = hasBlockingRuleFindings(ruleEvaluation) && !ignoreRuleFindings;
+
+  const leadingSections = packetOptions.includeTableOfContents ? ['Cover Page', 'Table of Contents'] : ['Cover Page'];
+
+  // Save the wizard state to My Projects. Returns null when nobody is signed in.
+  const saveProject = async (): Promise<Project | null> => {
+    if (!(await authService.isAuthenticated())) return null;
+    const saved = await projectService.saveProject({ formData, selectedDocuments, packetOptions }, projectId);
+    setProject(saved);
+    onProjectSaved(saved.id);
+    return saved;
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      if (await saveProject()) {
+        toast.success('Project saved to My Projects');
+      } else {
+        toast('Sign in from My Projects to save this project.');
+      }
+    } catch (error) {
+      console.error('Error saving project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save project');
+    }
   };
 
   const handleGenerate = async () => {
+    if (blockedByRequired) {
+      toast.error('Go back and add the required documents, or give a reason for leaving them out.');
+      return;
+    }
+    if (blockedByRules) {
+      toast.error('Resolve the document rule warnings or confirm that the packet should go out as is.');
+      return;
+    }
+    if (blockedByExpiry) {
+      toast.error('Remove the expired documents or confirm that they should be included.');
+      return;
+    }
+
     console.log('Generate Packet button clicked');
     if (isGenerating) return;
     onSetGenerating(true);
@@ -140,17 +205,63 @@ const PacketGeneration = ({
           forRecord: false,
           forInformationOnly: false,
         },
-        submittalType: getSubmittalTypeFromDocuments(),
+        submittalChecklist,
         date: formData.date || new Date().toLocaleDateString(),
       };
       console.log('Prepared form data for PDF:', preparedFormData); // Debug output
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs);
-      pdfService.downloadPDF(pdfBytes, `${formData.projectName || 'Untitled'}_Packet.pdf`);
+
+      // Signed-in users get the packet recorded as the next revision of the project
+      const savedProject = await saveProject().catch(error => {
+        console.error('Error saving project:', error);
+        toast.error('Could not save to My Projects; generating without revision tracking.');
+        return null;
+      });
+      // Record the versions the packet is built from, not the ones loaded with the library
+      const packetDocs = await documentService.pinCurrentVersions(sortedDocs);
+      const packetSnapshot = snapshotDocuments(packetDocs);
+      const plan = savedProject ? planNextRevision(savedProject.packets, packetSnapshot) : null;
+
+      const pdfBytes = await pdfService.generatePacket(preparedFormData, packetDocs, { ...generateOptions, revision: plan?.revision });
+      const revisionSuffix = plan ? `_Rev${plan.revision.number}` : '';
+      const filename = `${formData.projectName || 'Untitled'}_Packet${revisionSuffix}.pdf`;
+      pdfService.downloadPDF(pdfBytes, filename);
+
+      auditService.recordPacketGeneration({
+        projectId: savedProject?.id,
+        projectName: formData.projectName || 'Untitled',
+        submittedTo: formData.submittedTo || '',
+        preparedBy: formData.preparedBy || '',
+        filename,
+        revision: plan?.revision.number,
+        engine: packetOptions.engine,
+        documents: packetSnapshot,
+      }).catch(error => console.error('Error recording packet generation:', error));
+
+      if (savedProject && plan) {
+        // The download already happened; a failed upload must not report the generation as failed
+        projectService.recordRevision(savedProject.id, {
+          revision: plan.revision.number,
+          filename,
+          bytes: pdfBytes,
+          engine: packetOptions.engine,
+          documents: packetSnapshot,
+          changeSummary: summarizeRevisionDiff(plan.changes),
+        })
+          .then(packet => {
+            setProject({ ...savedProject, packets: [packet, ...savedProject.packets] });
+            toast.success(`Saved as Rev ${packet.revision} in My Projects`);
+          })
+          .catch(error => {
+            console.error('Error recording revision:', error);
+            toast.error(error instanceof Error ? error.message : 'Packet generated, but the revision could not be saved.');
+          });
+      }
       onNext();
     } catch (error) {
       console.error('Error generating PDF:', error);
-      alert('Failed to generate PDF packet.');
+      alert(error instanceof Error ? `Failed to generate PDF packet: ${error.message}` : 'Failed to generate PDF packet.');
     } finally {
+      setDownloadProgress(null);
       onSetGenerating(false);
     }
   };
@@ -171,16 +282,17 @@ const PacketGeneration = ({
           forRecord: false,
           forInformationOnly: false,
         },
-        submittalType: getSubmittalTypeFromDocuments(),
+        submittalChecklist,
         date: formData.date || new Date().toLocaleDateString(),
       };
       console.log('Prepared form data for preview:', preparedFormData); // Debug output
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs);
+      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs, { ...generateOptions, revision: nextRevision?.revision });
       pdfService.previewPDF(pdfBytes);
     } catch (error) {
       console.error('Error generating PDF for preview:', error);
-      alert('Failed to generate PDF preview.');
+      alert(error instanceof Error ? `Failed to generate PDF preview: ${error.message}` : 'Failed to generate PDF preview.');
     } finally {
+      setDownloadProgress(null);
       onSetGenerating(false);
     }
   };
@@ -217,21 +329,200 @@ const PacketGeneration = ({
             </div>
             
             <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-              <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Documents ({sortedDocs.length + 1})</h4>
+              <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Documents ({sortedDocs.length + leadingSections.length})</h4>
               <div className="space-y-1">
-                <p className="text-gray-700 dark:text-gray-300 font-medium">1. Cover Page</p>
+                {leadingSections.map((section, index) => (
+                  <p key={section} className="text-gray-700 dark:text-gray-300 font-medium">{index + 1}. {section}</p>
+                ))}
               {sortedDocs.map((doc, index) => {
-                  return <p key={doc.id} className="text-gray-700 dark:text-gray-300">{index + 2}. {doc.document.name}</p>;
+                  return (
+                    <p key={doc.id} className="text-gray-700 dark:text-gray-300">
+                      {index + leadingSections.length + 1}. {doc.document.name}
+                      {doc.pageRange && <span className="text-xs text-gray-500 dark:text-gray-400"> (pages {doc.pageRange})</span>}
+                      {packetOptions.includeDividers && <span className="text-xs text-gray-500 dark:text-gray-400"> (with divider)</span>}
+                    </p>
+                  );
               })}
               </div>
             </div>
+
+            {(missingRequired.length > 0 || requiredOverrides.length > 0) && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4 space-y-3">
+                {missingRequired.length > 0 && (
+                  <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                    <p className="font-medium mb-1">Required documents missing:</p>
+                    <ul className="list-disc list-inside">
+                      {missingRequired.map(doc => <li key={doc.id}>{doc.name}</li>)}
+                    </ul>
+                    <p className="mt-1 text-xs">Every packet for this product must include these. Go back and add them, or remove them with a reason.</p>
+                  </div>
+                )}
+                {requiredOverrides.length > 0 && (
+                  <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                    <p className="font-medium mb-1">Required documents left out:</p>
+                    <ul className="list-disc list-inside">
+                      {requiredOverrides.map(doc => <li key={doc.id}>{doc.document.name} - {doc.removalReason}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {Object.values(ruleEvaluation).some(findings => findings.length > 0) && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4 space-y-3">
+                <DocumentRuleFindings evaluation={ruleEvaluation} />
+                {hasBlockingRuleFindings(ruleEvaluation) && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={ignoreRuleFindings} onChange={(e) => setIgnoreRuleFindings(e.target.checked)} disabled={isGenerating} className="rounded border-gray-300" />
+                    <span>Generate anyway; these rules do not apply to this project</span>
+                  </label>
+                )}
+              </div>
+            )}
+
+            {(expiryIssues.expired.length > 0 || expiryIssues.expiring.length > 0) && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4 space-y-3">
+                {expiryIssues.expired.length > 0 && (
+                  <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                    <p className="font-medium mb-1">Expired documents:</p>
+                    <ul className="list-disc list-inside">
+                      {expiryIssues.expired.map(doc => <li key={doc.id}>{doc.name} - {describeExpiry(doc).toLowerCase()}</li>)}
+                    </ul>
+                    <p className="mt-1 text-xs">Building officials reject expired evaluation reports. Go back and remove them, or include them only if the reviewer has agreed.</p>
+                    <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                      <input type="checkbox" checked={includeExpired} onChange={(e) => setIncludeExpired(e.target.checked)} disabled={isGenerating} className="rounded border-red-300" />
+                      <span>Include expired documents anyway</span>
+                    </label>
+                  </div>
+                )}
+                {expiryIssues.expiring.length > 0 && (
+                  <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                    <p className="font-medium mb-1">Expiring soon:</p>
+                    <ul className="list-disc list-inside">
+                      {expiryIssues.expiring.map(doc => <li key={doc.id}>{doc.name} - {describeExpiry(doc).toLowerCase()}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {nextRevision && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
+                <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Revision</h4>
+                <p className="text-gray-700 dark:text-gray-300 mb-2">
+                  This packet will be issued as <span className="font-medium">Rev {nextRevision.revision.number}</span>.
+                </p>
+                {nextRevision.changes && project && project.packets.length > 0 && (
+                  <RevisionChanges diff={nextRevision.changes} sinceRevision={project.packets[0].revision} />
+                )}
+              </div>
+            )}
+
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
+              <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Submittal Type</h4>
+              {categoriesError ? (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                  <p>{categoriesError}</p>
+                  <button onClick={loadCategories} className="mt-2 font-medium underline">Try again</button>
+                </div>
+              ) : checkedGroups.length > 0 ? (
+                <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+                  {checkedGroups.map(({ group, items }) => (
+                    <li key={group || items[0].categoryId}>
+                      ✓ {group ? `${group}: ${items.map(item => item.label).join(', ')}` : items[0].label}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">No submittal types will be checked on the cover page.</p>
+              )}
+              {!categoriesError && untaggedDocs.length > 0 && (
+                <div className="mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                  <p className="font-medium mb-1">Not reflected on the cover page checklist:</p>
+                  <ul className="list-disc list-inside">
+                    {untaggedDocs.map(doc => <li key={doc.id}>{doc.document.name}</li>)}
+                  </ul>
+                  <p className="mt-1 text-xs">Tag these documents with a submittal category in the admin panel.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Generation</h3>
+          <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <label htmlFor="packetEngine" className="form-label text-sm font-medium">PDF Engine</label>
+            <select
+              id="packetEngine"
+              value={packetOptions.engine}
+              onChange={(e) => onUpdatePacketOptions({ engine: e.target.value as PacketEngine })}
+              disabled={isGenerating}
+              className="form-input bg-white dark:bg-gray-700 mt-2 max-w-xs"
+            >
+              {engineOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              {engineOptions.find(option => option.value === packetOptions.engine)?.description}
+            </p>
+
+            <div className="mt-6 space-y-3">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={packetOptions.includeTableOfContents}
+                  onChange={(e) => onUpdatePacketOptions({ includeTableOfContents: e.target.checked })}
+                  disabled={isGenerating}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Table of contents</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">Adds a contents page after the cover with page numbers and clickable links to each document.</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={packetOptions.includeBookmarks}
+                  onChange={(e) => onUpdatePacketOptions({ includeBookmarks: e.target.checked })}
+                  disabled={isGenerating}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">PDF bookmarks</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">Adds one bookmark per document so reviewers can jump between sections.</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={packetOptions.includeDividers}
+                  onChange={(e) => onUpdatePacketOptions({ includeDividers: e.target.checked })}
+                  disabled={isGenerating}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Divider pages</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">Inserts a tabbed slip sheet with the section number and document type before each document.</span>
+                </span>
+              </label>
+              <PageStampSettings
+                stamp={packetOptions.stamp}
+                formData={formData}
+                disabled={isGenerating}
+                onChange={(changes) => onUpdatePacketOptions({ stamp: { ...packetOptions.stamp, ...changes } })}
+              />
+            </div>
           </div>
         </div>
 
         <div className="flex justify-between pt-8 border-t border-gray-200 dark:border-gray-700 gap-2">
           <motion.button onClick={() => { console.log('Navigating back to arrangement'); onPrevious(); }} whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="btn btn-outline btn-lg">Back to Arrangement</motion.button>
-          <motion.button onClick={handlePreview} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-outline btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? 'Generating...' : 'Preview Packet'}</motion.button>
-          <motion.button onClick={handleGenerate} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-primary btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? 'Generating...' : 'Generate Packet'}</motion.button>
+          <motion.button onClick={handleSaveProject} disabled={isGenerating} whileHover={!isGenerating ? { scale: 1.02 } : {}} whileTap={!isGenerating ? { scale: 0.98 } : {}} className={cn('btn btn-ghost btn-lg ml-auto', isGenerating && 'opacity-50 cursor-not-allowed')}>Save Project</motion.button>
+          <motion.button onClick={handlePreview} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-outline btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? generatingLabel : 'Preview Packet'}</motion.button>
+          <motion.button onClick={handleGenerate} disabled={isGenerating || sortedDocs.length === 0 || blockedByExpiry || blockedByRequired || blockedByRules} whileHover={!(isGenerating || sortedDocs.length === 0 || blockedByExpiry || blockedByRequired || blockedByRules) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0 || blockedByExpiry || blockedByRequired || blockedByRules) ? { scale: 0.98 } : {}} className={cn('btn btn-primary btn-lg min-w-24', (isGenerating || sortedDocs.length === 0 || blockedByExpiry || blockedByRequired || blockedByRules) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? generatingLabel : 'Generate Packet'}</motion.button>
         </div>
       </div>
     </motion.div>
@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircleIcon } from '@heroicons/react/24/outline';
 import { cn } from '@/utils';
-import type { ProductType } from '@/types';
+import { productService } from '@/services/productService';
+import type { Product, ProductType } from '@/types';
 
 interface ProductSelectionProps {
   productType?: ProductType;
@@ -16,6 +17,25 @@ export default function ProductSelection({
   onNext,
 }: ProductSelectionProps) {
   const [selectedProduct, setSelectedProduct] = useState<ProductType | undefined>(initialProductType);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProducts = async () => {
+      try {
+        setLoading(true);
+        setLoadError(null);
+        setProducts(await productService.getActiveProducts());
+      } catch (error) {
+        console.error('Error loading products:', error);
+        setLoadError('Failed to load products. Please refresh the page.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadProducts();
+  }, []);
 
   const handleProductSelect = (product: ProductType) => {
     setSelectedProduct(product);
@@ -28,19 +48,6 @@ export default function ProductSelection({
     }
   };
 
-  const products = [
-    {
-      id: 'structural-floor' as ProductType,
-      name: 'Structural Floor Panel',
-      description: 'MAXTERRA® MgO Non-Combustible Structural Floor Panels',
-    },
-    {
-      id: 'underlayment' as ProductType,
-      name: 'Underlayment Panel',
-      description: 'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels',
-    },
-  ];
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -59,6 +66,24 @@ export default function ProductSelection({
           </p>
         </div>
 
+        {loading && (
+          <div className="text-center py-8">
+            <p className="text-gray-500 dark:text-gray-400">Loading products...</p>
+          </div>
+        )}
+
+        {loadError && (
+          <div className="text-center py-8">
+            <p className="text-red-500">{loadError}</p>
+          </div>
+        )}
+
+        {!loading && !loadError && products.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500 dark:text-gray-400">No products are available yet.</p>
+          </div>
+        )}
+
         {/* Product Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-5xl mx-auto mb-8">
           {products.map((product) => {
@@ -89,6 +114,14 @@ export default function ProductSelection({
                   </motion.div>
                 )}
 
+                {product.imageUrl && (
+                  <img
+                    src={product.imageUrl}
+                    alt={product.name}
+                    className="w-full h-40 object-cover rounded-lg mb-4"
+                  />
+                )}
+
                 {/* Product Info */}
                 <div className="pr-12">
                   <h3 className={cn(
@@ -1,7 +1,8 @@
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/utils';
-import type { ProjectFormData, ProductType } from '@/types';
+import { productService } from '@/services/productService';
+import type { ProjectFormData, Product } from '@/types';
 
 interface ProjectFormProps {
   formData: Partial<ProjectFormData>;
@@ -26,25 +27,28 @@ export default function ProjectForm({
   const [emailAddress, setEmailAddress] = useState(formData.emailAddress || '');
   const [phoneNumber, setPhoneNumber] = useState(formData.phoneNumber || '');
 
-  // Get product type from formData
-  const productType: ProductType = formData.productType || 'structural-floor';
+  // Available product sizes come from the selected catalog product
+  const [product, setProduct] = useState<Product | null>(null);
+  const [productSize, setProductSize] = useState(formData.productSize || '');
+  const availableProductSizes = product?.availableSizes || [];
+  const availableSizesText = availableProductSizes.length > 1
+    ? `${availableProductSizes.slice(0, -1).join(', ')} and ${availableProductSizes[availableProductSizes.length - 1]}`
+    : availableProductSizes[0];
 
-  // Determine available product sizes based on product type
-  const availableProductSizes = useMemo(() => {
-    if (productType === 'structural-floor') {
-      return ['3/4-in (20mm)'];
-    } else if (productType === 'underlayment') {
-      return ['1/2-in (12mm)', '5/8-in (16mm)'];
-    }
-    return ['3/4-in (20mm)'];
-  }, [productType]);
-
-  const [productSize, setProductSize] = useState(() => {
-    if (formData.productSize && availableProductSizes.includes(formData.productSize)) {
-      return formData.productSize;
-    }
-    return availableProductSizes[0];
-  });
+  useEffect(() => {
+    const loadProduct = async () => {
+      if (!formData.productType) return;
+      try {
+        const loaded = await productService.getProduct(formData.productType);
+        setProduct(loaded);
+        const sizes = loaded?.availableSizes || [];
+        setProductSize(current => (sizes.includes(current) ? current : sizes[0] || ''));
+      } catch (error) {
+        console.error('Error loading product:', error);
+      }
+    };
+    loadProduct();
+  }, [formData.productType]);
 
   // Status checkboxes
   const [statusForReview, setStatusForReview] = useState(formData.status?.forReview || false);
@@ -307,6 +311,7 @@ export default function ProjectForm({
           </div>
 
           {/* Product Size Selection */}
+          {availableProductSizes.length > 0 && (
           <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
             <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-4">Product Size</h3>
             <div className="flex flex-col gap-2">
@@ -326,12 +331,11 @@ export default function ProjectForm({
                 ))}
               </select>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                {productType === 'structural-floor' 
-                  ? 'Structural Floor Panels are available in 3/4-in thickness' 
-                  : 'Underlayment Panels are available in 1/2-in and 5/8-in thickness'}
+                {product?.name} is available in {availableSizesText} thickness
                 </p>
             </div>
           </div>
+          )}
         </form>
 
         {/* Navigation */}
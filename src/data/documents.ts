@@ -35,41 +35,49 @@ export { availableDocuments }
 // Document type configurations
 export const documentTypeConfig = {
   TDS: {
+    label: 'Technical Data Sheet',
     color: 'blue',
     icon: '📋',
     priority: 1,
   },
   ESR: {
+    label: 'Evaluation Report',
     color: 'green',
     icon: '✅',
     priority: 2,
   },
   MSDS: {
+    label: 'Material Safety Data Sheet',
     color: 'red',
     icon: '⚠️',
     priority: 8,
   },
   LEED: {
+    label: 'LEED Credit Guide',
     color: 'emerald',
     icon: '🌿',
     priority: 6,
   },
   Installation: {
+    label: 'Installation Guide',
     color: 'orange',
     icon: '🔧',
     priority: 3,
   },
   warranty: {
+    label: 'Limited Warranty',
     color: 'purple',
     icon: '🛡️',
     priority: 4,
   },
   Acoustic: {
+    label: 'Acoustical Performance',
     color: 'indigo',
     icon: '🔊',
     priority: 7,
   },
   PartSpec: {
+    label: '3-Part Specifications',
     color: 'gray',
     icon: '📐',
     priority: 5,
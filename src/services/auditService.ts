@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabaseClient'
+import type { AuditAction, AuditEvent, PacketDocumentSnapshot } from '@/types'
+
+export interface AuditEventFilters {
+  action?: AuditAction
+  search?: string // Matches the actor's email or the target's name
+  from?: string // 'YYYY-MM-DD', inclusive
+  to?: string // 'YYYY-MM-DD', inclusive
+}
+
+// Details of a generated packet, kept so a document version can be traced to the customer it went to
+export interface PacketGenerationAudit {
+  projectId?: string
+  projectName: string
+  submittedTo: string
+  preparedBy: string
+  filename: string
+  revision?: number
+  engine: string
+  documents: PacketDocumentSnapshot[]
+}
+
+export const AUDIT_EVENT_LIMIT = 500
+
+class AuditService {
+  /**
+   * Newest events first, at most AUDIT_EVENT_LIMIT. Library changes are
+   * recorded by database triggers; only packet generations are written here.
+   */
+  async getEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(AUDIT_EVENT_LIMIT)
+
+    if (filters.action) {
+      query = query.eq('action', filters.action)
+    }
+    if (filters.from) {
+      query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString())
+    }
+    if (filters.to) {
+      query = query.lt('occurred_at', new Date(new Date(`${filters.to}T00:00:00`).getTime() + 86_400_000).toISOString())
+    }
+
+    // Values are quoted for PostgREST; characters that could break out of the quotes are dropped
+    const search = (filters.search || '').replace(/["\\*%]/g, ' ').trim()
+    if (search) {
+      query = query.or(`actor_email.ilike."*${search}*",target_name.ilike."*${search}*"`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching audit events:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToAuditEvent)
+  }
+
+  /**
+   * Written through a database function that checks the project and document
+   * versions, so the log cannot be filled with made-up packets
+   */
+  async recordPacketGeneration(packet: PacketGenerationAudit): Promise<void> {
+    const { error } = await supabase.rpc('record_packet_generation', {
+      project: packet.projectId || null,
+      project_name: packet.projectName,
+      submitted_to: packet.submittedTo,
+      prepared_by: packet.preparedBy,
+      packet_filename: packet.filename,
+      packet_revision: packet.revision ?? null,
+      engine: packet.engine,
+      packet_documents: packet.documents,
+    })
+
+    if (error) {
+      throw new Error(`Failed to record packet generation: ${error.message}`)
+    }
+  }
+
+  private mapDatabaseToAuditEvent(dbEvent: any): AuditEvent {
+    return {
+      id: dbEvent.id,
+      occurredAt: dbEvent.occurred_at,
+      actorId: dbEvent.actor_id,
+      actorEmail: dbEvent.actor_email,
+      action: dbEvent.action,
+      targetType: dbEvent.target_type,
+      targetId: dbEvent.target_id,
+      targetName: dbEvent.target_name,
+      before: dbEvent.before,
+      after: dbEvent.after,
+    }
+  }
+}
+
+export const auditService = new AuditService()
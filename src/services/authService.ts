@@ -1,4 +1,6 @@
 import { supabase } from '@/lib/supabaseClient'
+import { describeMissingPermission, hasPermission, type Permission } from '@/utils/permissions'
+import type { UserProfile, UserRole } from '@/types'
 
 export class AuthService {
   async signInAdmin(email: string, password: string) {
@@ -58,6 +60,56 @@ export class AuthService {
     }
   }
 
+  /**
+   * Profile (and so role) of the signed-in user, or null when signed out
+   */
+  async getProfile(): Promise<UserProfile | null> {
+    const user = await this.getUser()
+    if (!user) return null
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching profile:', error)
+      throw error
+    }
+
+    return data ? this.mapDatabaseToProfile(data) : null
+  }
+
+  /**
+   * Throw unless the signed-in user's role allows the action. The RLS policies
+   * enforce the same rules; checking first gives a clear error message.
+   */
+  async requirePermission(permission: Permission): Promise<void> {
+    const profile = await this.getProfile()
+    if (!hasPermission(profile?.role, permission)) {
+      throw new Error(describeMissingPermission(permission))
+    }
+  }
+
+  async updateUserRole(userId: string, role: UserRole): Promise<void> {
+    await this.requirePermission('manageRoles')
+
+    const user = await this.getUser()
+    if (user?.id === userId) {
+      throw new Error('You cannot change your own role')
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('id', userId)
+
+    if (error) {
+      throw new Error(`Failed to update role: ${error.message}`)
+    }
+  }
+
   onAuthStateChange(callback: (isAuthenticated: boolean) => void) {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (_event, session) => {
@@ -69,6 +121,15 @@ export class AuthService {
       subscription?.unsubscribe()
     }
   }
+
+  private mapDatabaseToProfile(dbProfile: any): UserProfile {
+    return {
+      id: dbProfile.id,
+      email: dbProfile.email,
+      role: dbProfile.role,
+      createdAt: dbProfile.created_at,
+    }
+  }
 }
 
 export const authService = new AuthService()
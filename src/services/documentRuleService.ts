@@ -0,0 +1,114 @@
+import type { DocumentRule } from '@/types'
+import { supabase } from '@/lib/supabaseClient'
+import { authService } from './authService'
+
+export type DocumentRuleInput = Omit<DocumentRule, 'id'>
+
+class DocumentRuleService {
+  /**
+   * Get all document rules
+   */
+  async getAllRules(): Promise<DocumentRule[]> {
+    const { data, error } = await supabase
+      .from('document_rules')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching document rules:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToRule)
+  }
+
+  /**
+   * Create a new rule between two documents
+   */
+  async createRule(input: DocumentRuleInput): Promise<DocumentRule> {
+    await authService.requirePermission('manageLibrary')
+    if (!input.documentId || !input.relatedDocumentId) {
+      throw new Error('Choose both documents for the rule')
+    }
+    if (input.documentId === input.relatedDocumentId) {
+      throw new Error('A rule must relate two different documents')
+    }
+
+    const { data, error } = await supabase
+      .from('document_rules')
+      .insert({
+        document_id: input.documentId,
+        related_document_id: input.relatedDocumentId,
+        rule_type: input.type,
+        note: input.note.trim(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(
+        error.code === '23505'
+          ? 'This rule already exists'
+          : `Failed to save rule: ${error.message}`
+      )
+    }
+
+    return this.mapDatabaseToRule(data)
+  }
+
+  /**
+   * Update a rule's type or note
+   */
+  async updateRule(id: string, updates: Partial<Pick<DocumentRuleInput, 'type' | 'note'>>): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    }
+
+    if (updates.type !== undefined) updateData.rule_type = updates.type
+    if (updates.note !== undefined) updateData.note = updates.note.trim()
+
+    const { error } = await supabase
+      .from('document_rules')
+      .update(updateData)
+      .eq('id', id)
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This rule already exists')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(id: string): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const { error } = await supabase
+      .from('document_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Map database rule to frontend DocumentRule type
+   */
+  private mapDatabaseToRule(dbRule: any): DocumentRule {
+    return {
+      id: dbRule.id,
+      documentId: dbRule.document_id,
+      relatedDocumentId: dbRule.related_document_id,
+      type: dbRule.rule_type,
+      note: dbRule.note || '',
+    }
+  }
+}
+
+export const documentRuleService = new DocumentRuleService()
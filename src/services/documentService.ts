@@ -1,8 +1,25 @@
-import type { Document, DocumentType, ProductType } from '@/types'
+import type { Document, DocumentTextMatch, DocumentVersion, ProductType, SelectedDocument } from '@/types'
 import { supabase } from '@/lib/supabaseClient'
+import { extractPageTexts } from '@/utils/pdfText'
+import { sha256Hex } from '@/utils/contentHash'
+import { authService } from './authService'
+
+export type DocumentUploadMetadata = Pick<Document, 'name' | 'description' | 'docType'>
+
+// A document's file as resolved for a packet, with the version it belongs to
+export interface ResolvedDocumentFile {
+  url: string
+  version: number
+}
 
 const BUCKET_NAME = 'documents'
 
+// The bucket is private; links must outlive a preview streaming its pages or the worker fetching the file
+const SIGNED_URL_EXPIRY_SECONDS = 600
+
+// Documents are always loaded together with their submittal category tags
+const DOCUMENT_SELECT = '*, document_submittal_categories(category_id)'
+
 class DocumentService {
   /**
    * Get all documents
@@ -10,7 +27,7 @@ class DocumentService {
   async getAllDocuments(): Promise<Document[]> {
     const { data, error } = await supabase
       .from('documents')
-      .select('*')
+      .select(DOCUMENT_SELECT)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -27,7 +44,7 @@ class DocumentService {
   async getDocumentsByProductType(productType: ProductType): Promise<Document[]> {
     const { data, error } = await supabase
       .from('documents')
-      .select('*')
+      .select(DOCUMENT_SELECT)
       .eq('product_type', productType)
       .order('created_at', { ascending: false })
 
@@ -45,7 +62,7 @@ class DocumentService {
   async getDocument(id: string): Promise<Document | null> {
     const { data, error } = await supabase
       .from('documents')
-      .select('*')
+      .select(DOCUMENT_SELECT)
       .eq('id', id)
       .maybeSingle()
 
@@ -90,13 +107,15 @@ class DocumentService {
   }
 
   /**
-   * Upload a new document
+   * Upload a new document with the name, description and type reviewed at import
    */
   async uploadDocument(
     file: File,
     productType: ProductType,
+    metadata: DocumentUploadMetadata,
     onProgress?: (progress: number) => void
   ): Promise<Document> {
+    await authService.requirePermission('manageLibrary')
     const validation = await this.validatePDF(file)
     if (!validation.valid) {
       throw new Error(validation.error || 'Invalid PDF file')
@@ -130,28 +149,24 @@ class DocumentService {
 
       if (onProgress) onProgress(50)
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from(BUCKET_NAME)
-        .getPublicUrl(uploadData.path)
-
-      const type = this.detectDocumentType(file.name)
-      const name = this.extractDocumentName(file.name, type)
+      const { name, description, docType } = metadata
+      const contentHash = await sha256Hex(file)
 
       // Insert document metadata
       const { data: docData, error: insertError } = await supabase
         .from('documents')
         .insert({
-          name,
-          description: `${type} Document`,
+          name: name.trim(),
+          description,
           filename: file.name,
-          file_url: publicUrl,
+          storage_path: uploadData.path,
           size: file.size,
-          type: productType, // Using productType as document type
+          doc_type: docType,
           product_type: productType,
           required: false,
+          content_hash: contentHash,
         })
-        .select()
+        .select(DOCUMENT_SELECT)
         .single()
 
       if (insertError) {
@@ -165,19 +180,377 @@ class DocumentService {
         throw new Error(`Failed to save document metadata: ${insertError.message}`)
       }
 
+      const { error: versionError } = await supabase
+        .from('document_versions')
+        .insert({
+          document_id: docData.id,
+          version_number: 1,
+          filename: file.name,
+          storage_path: uploadData.path,
+          size: file.size,
+          content_hash: contentHash,
+        })
+
+      if (versionError) {
+        console.error('Error recording document version:', versionError)
+        // Without its version row the document could never be pinned or versioned again
+        await supabase.from('documents').delete().eq('id', docData.id)
+        await supabase.storage
+          .from(BUCKET_NAME)
+          .remove([uploadData.path])
+          .catch(console.error)
+
+        throw new Error(`Failed to save document version: ${versionError.message}`)
+      }
+
+      if (onProgress) onProgress(75)
+
+      // A document that cannot be indexed is still usable, it just won't show up in content searches
+      const textIndexedAt = await this.indexDocumentText(docData.id, await file.arrayBuffer())
+        .catch(error => {
+          console.error('Error indexing document text:', error)
+          return null
+        })
+
       if (onProgress) onProgress(100)
 
-      return this.mapDatabaseToDocument(docData)
+      return this.mapDatabaseToDocument({ ...docData, text_indexed_at: textIndexedAt })
     } catch (error) {
       console.error('Error in uploadDocument:', error)
       throw error instanceof Error ? error : new Error('Failed to upload document')
     }
   }
 
+  /**
+   * Upload a file as the next version of an existing document. The document
+   * keeps its id and resolves to the new file; earlier files stay in storage.
+   */
+  async uploadNewVersion(
+    documentId: string,
+    file: File,
+    notes = '',
+    onProgress?: (progress: number) => void
+  ): Promise<Document> {
+    await authService.requirePermission('manageLibrary')
+    const validation = await this.validatePDF(file)
+    if (!validation.valid) {
+      throw new Error(validation.error || 'Invalid PDF file')
+    }
+
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      if (authError || !user) {
+        throw new Error('You must be logged in to upload documents')
+      }
+
+      const existing = await this.getDocument(documentId)
+      if (!existing) {
+        throw new Error('Document not found')
+      }
+
+      const versionNumber = existing.currentVersion + 1
+      const contentHash = await sha256Hex(file)
+      const fileExt = file.name.split('.').pop()
+      const fileName = `${existing.productType}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`
+
+      if (onProgress) onProgress(25)
+
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .upload(fileName, file, {
+          cacheControl: '3600',
+          upsert: false,
+          contentType: 'application/pdf'
+        })
+
+      if (uploadError) {
+        console.error('Storage upload error:', uploadError)
+        throw new Error(`Failed to upload file: ${uploadError.message}`)
+      }
+
+      if (onProgress) onProgress(50)
+
+      // The unique (document, version) key stops two concurrent uploads from
+      // both claiming the same number
+      const { error: versionError } = await supabase
+        .from('document_versions')
+        .insert({
+          document_id: documentId,
+          version_number: versionNumber,
+          filename: file.name,
+          storage_path: uploadData.path,
+          size: file.size,
+          notes: notes.trim(),
+          content_hash: contentHash,
+        })
+
+      if (versionError) {
+        console.error('Database insert error:', versionError)
+        await supabase.storage
+          .from(BUCKET_NAME)
+          .remove([uploadData.path])
+          .catch(console.error)
+
+        throw new Error(
+          versionError.code === '23505'
+            ? 'Another version was uploaded at the same time. Reload and try again.'
+            : `Failed to save document version: ${versionError.message}`
+        )
+      }
+
+      if (onProgress) onProgress(75)
+
+      const { data: docData, error: updateError } = await supabase
+        .from('documents')
+        .update({
+          filename: file.name,
+          storage_path: uploadData.path,
+          size: file.size,
+          current_version: versionNumber,
+          content_hash: contentHash,
+        })
+        .eq('id', documentId)
+        .select(DOCUMENT_SELECT)
+        .single()
+
+      if (updateError) {
+        console.error('Database update error:', updateError)
+        // The document still points at the previous file; drop the version it never reached
+        await supabase
+          .from('document_versions')
+          .delete()
+          .eq('document_id', documentId)
+          .eq('version_number', versionNumber)
+        await supabase.storage
+          .from(BUCKET_NAME)
+          .remove([uploadData.path])
+          .catch(console.error)
+
+        throw new Error(`Failed to switch document to the new version: ${updateError.message}`)
+      }
+
+      const textIndexedAt = await this.indexDocumentText(documentId, await file.arrayBuffer())
+        .catch(error => {
+          console.error('Error indexing document text:', error)
+          return null
+        })
+
+      if (onProgress) onProgress(100)
+
+      return this.mapDatabaseToDocument({ ...docData, text_indexed_at: textIndexedAt })
+    } catch (error) {
+      console.error('Error in uploadNewVersion:', error)
+      throw error instanceof Error ? error : new Error('Failed to upload new version')
+    }
+  }
+
+  /**
+   * Documents whose current file has the given SHA-256
+   */
+  async findDocumentsByHash(contentHash: string): Promise<Document[]> {
+    const { data, error } = await supabase
+      .from('documents')
+      .select(DOCUMENT_SELECT)
+      .eq('content_hash', contentHash)
+
+    if (error) {
+      console.error('Error looking up duplicate documents:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToDocument)
+  }
+
+  /**
+   * Compute and store the fingerprint of a document uploaded before hashing existed
+   */
+  async fingerprintDocument(doc: Document): Promise<string> {
+    await authService.requirePermission('manageLibrary')
+    const contentHash = await sha256Hex(await this.fetchDocumentBytes(doc))
+
+    const { error } = await supabase
+      .from('documents')
+      .update({ content_hash: contentHash })
+      .eq('id', doc.id)
+
+    if (error) {
+      throw new Error(`Failed to save document fingerprint: ${error.message}`)
+    }
+
+    return contentHash
+  }
+
+  /**
+   * Get the stored versions of a document, newest first
+   */
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching document versions:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToVersion)
+  }
+
+  /**
+   * Short-lived link to a file in the documents bucket. Pass a filename to
+   * have the browser download it under that name.
+   */
+  async getSignedUrl(storagePath: string, download?: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .createSignedUrl(storagePath, SIGNED_URL_EXPIRY_SECONDS, download ? { download } : undefined)
+
+    if (error || !data) {
+      console.error('Error creating document link:', error)
+      throw new Error(
+        (await authService.isAuthenticated())
+          ? 'Failed to create document link'
+          : 'Sign in to open document files'
+      )
+    }
+
+    return data.signedUrl
+  }
+
+  /**
+   * Link to the file a packet should include: the pinned version when one is
+   * given, otherwise the document's current version as stored right now
+   * (the in-memory document may predate a newer upload). Also returns which
+   * version that is.
+   */
+  async resolveDocumentUrl(doc: Document, pinnedVersion?: number): Promise<ResolvedDocumentFile> {
+    const { storagePath, version } = await this.resolveStoragePath(doc, pinnedVersion)
+    return { url: await this.getSignedUrl(storagePath), version }
+  }
+
+  /**
+   * Pin every unpinned document to the version that is current right now, so
+   * a packet built from the result and the record of what it contained name
+   * the same files even if a new version is uploaded in between
+   */
+  async pinCurrentVersions(selectedDocuments: SelectedDocument[]): Promise<SelectedDocument[]> {
+    return Promise.all(selectedDocuments.map(async (doc) => {
+      if (!doc.selected || doc.pinnedVersion) return doc
+      const { version } = await this.resolveStoragePath(doc.document)
+      return { ...doc, pinnedVersion: version }
+    }))
+  }
+
+  private async resolveStoragePath(doc: Document, pinnedVersion?: number): Promise<{ storagePath: string; version: number }> {
+    if (pinnedVersion) {
+      const { data, error } = await supabase
+        .from('document_versions')
+        .select('storage_path')
+        .eq('document_id', doc.id)
+        .eq('version_number', pinnedVersion)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error resolving document version:', error)
+        throw error
+      }
+
+      if (!data) {
+        throw new Error(`Version ${pinnedVersion} of "${doc.name}" no longer exists`)
+      }
+
+      return { storagePath: data.storage_path, version: pinnedVersion }
+    }
+
+    const current = await this.getDocument(doc.id) || doc
+    if (!current.storagePath) {
+      throw new Error(`Document "${doc.name}" has no file attached`)
+    }
+
+    return { storagePath: current.storagePath, version: current.currentVersion }
+  }
+
+  /**
+   * Extract the text of a document's file and replace its searchable pages.
+   * Returns the time the document was marked as indexed.
+   */
+  async indexDocumentText(documentId: string, data: ArrayBuffer): Promise<string> {
+    await authService.requirePermission('manageLibrary')
+    const pages = await extractPageTexts(data)
+
+    const { error: deleteError } = await supabase
+      .from('document_pages')
+      .delete()
+      .eq('document_id', documentId)
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    const rows = pages
+      .map((content, index) => ({ document_id: documentId, page_number: index + 1, content }))
+      .filter(row => row.content.length > 0)
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('document_pages')
+        .insert(rows)
+
+      if (insertError) {
+        throw insertError
+      }
+    }
+
+    const textIndexedAt = new Date().toISOString()
+    const { error } = await supabase
+      .from('documents')
+      .update({ text_indexed_at: textIndexedAt })
+      .eq('id', documentId)
+
+    if (error) {
+      throw error
+    }
+
+    return textIndexedAt
+  }
+
+  /**
+   * Index a document uploaded before text extraction existed
+   */
+  async reindexDocumentText(doc: Document): Promise<string> {
+    return this.indexDocumentText(doc.id, await this.fetchDocumentBytes(doc))
+  }
+
+  /**
+   * Search the extracted text of all documents, best matches first. Accepts
+   * web search syntax, e.g. "ASTM E84" for an exact phrase.
+   */
+  async searchDocumentText(query: string, productType?: ProductType): Promise<DocumentTextMatch[]> {
+    const { data, error } = await supabase.rpc('search_document_pages', {
+      search_query: query,
+      product: productType || null,
+    })
+
+    if (error) {
+      console.error('Error searching document text:', error)
+      throw error
+    }
+
+    return (data || []).map((row: any) => ({
+      documentId: row.document_id,
+      pageNumber: row.page_number,
+      snippet: row.snippet,
+      rank: row.rank,
+    }))
+  }
+
   /**
    * Update document metadata
    */
   async updateDocument(id: string, updates: Partial<Document>): Promise<void> {
+    await authService.requirePermission('manageLibrary')
     const existing = await this.getDocument(id)
     if (!existing) {
       throw new Error('Document not found')
@@ -188,9 +561,13 @@ class DocumentService {
     }
 
     if (updates.name) updateData.name = updates.name
-    if (updates.description) updateData.description = updates.description
+    if (updates.description !== undefined) updateData.description = updates.description
     if (updates.required !== undefined) updateData.required = updates.required
-    if (updates.type) updateData.type = updates.type
+    if (updates.docType) updateData.doc_type = updates.docType
+    if (updates.productType) updateData.product_type = updates.productType
+    // Dates can be cleared, so an empty value is written as null
+    if (updates.effectiveDate !== undefined) updateData.effective_date = updates.effectiveDate || null
+    if (updates.expirationDate !== undefined) updateData.expiration_date = updates.expirationDate || null
 
     const { error } = await supabase
       .from('documents')
@@ -200,82 +577,88 @@ class DocumentService {
     if (error) {
       throw error
     }
+
+    if (updates.submittalCategoryIds) {
+      await this.setSubmittalCategories(id, updates.submittalCategoryIds)
+    }
+  }
+
+  /**
+   * Replace the submittal category tags of a document
+   */
+  private async setSubmittalCategories(documentId: string, categoryIds: string[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('document_submittal_categories')
+      .delete()
+      .eq('document_id', documentId)
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    if (categoryIds.length === 0) return
+
+    const { error: insertError } = await supabase
+      .from('document_submittal_categories')
+      .insert(categoryIds.map(categoryId => ({ document_id: documentId, category_id: categoryId })))
+
+    if (insertError) {
+      throw insertError
+    }
   }
 
   /**
    * Delete a document
    */
   async deleteDocument(id: string): Promise<void> {
+    await authService.requirePermission('manageLibrary')
     const existing = await this.getDocument(id)
     if (!existing) {
       throw new Error('Document not found')
     }
 
-    const fileUrl = existing.url
-    const filePath = fileUrl.split('/storage/v1/object/public/documents/')[1]
-
-    if (filePath) {
-      const { error: deleteError } = await supabase.storage
-        .from(BUCKET_NAME)
-        .remove([filePath])
-
-      if (deleteError) {
-        console.error('Error deleting file from storage:', deleteError)
-      }
-    }
+    // Remove the files of every version, not just the current one
+    const versions = await this.getDocumentVersions(id).catch(() => [])
+    const filePaths = [...new Set([existing.storagePath, ...versions.map(version => version.storagePath)])]
+      .filter(filePath => !!filePath)
 
-    const { error } = await supabase
+    // Rows first (versions cascade), so a refused delete never leaves a document without its files
+    const { data, error } = await supabase
       .from('documents')
       .delete()
       .eq('id', id)
+      .select('id')
 
     if (error) {
       throw error
     }
-  }
+    if (!data || data.length === 0) {
+      throw new Error('Document could not be deleted')
+    }
 
-  /**
-   * Export document as base64 (for worker communication)
-   */
-  async exportDocumentAsBase64(id: string): Promise<string | null> {
-    const doc = await this.getDocument(id)
-    if (!doc || !doc.url) return null
+    if (filePaths.length > 0) {
+      const { error: deleteError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .remove(filePaths)
 
-    try {
-      const response = await fetch(doc.url)
-      const blob = await response.blob()
-
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader()
-        reader.onloadend = () => {
-          const base64 = reader.result as string
-          const base64Data = base64.split(',')[1]
-          resolve(base64Data)
-        }
-        reader.onerror = reject
-        reader.readAsDataURL(blob)
-      })
-    } catch (error) {
-      console.error('Error exporting document:', error)
-      return null
+      if (deleteError) {
+        console.error('Error deleting file from storage:', deleteError)
+      }
     }
   }
 
   /**
-   * Get all documents as base64 for worker
+   * Download the raw PDF bytes of a document (for in-browser packet assembly)
    */
-  async getAllDocumentsWithData(): Promise<Array<Document & { fileData: string }>> {
-    const documents = await this.getAllDocuments()
-    const results = []
-
-    for (const doc of documents) {
-      const fileData = await this.exportDocumentAsBase64(doc.id)
-      if (fileData) {
-        results.push({ ...doc, fileData })
-      }
+  async fetchDocumentBytes(doc: Document, pinnedVersion?: number): Promise<ArrayBuffer> {
+    const { url } = await this.resolveDocumentUrl(doc, pinnedVersion)
+
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to download "${doc.name}": ${response.status} ${response.statusText}`)
     }
 
-    return results
+    return response.arrayBuffer()
   }
 
   /**
@@ -287,51 +670,36 @@ class DocumentService {
       name: dbDoc.name,
       description: dbDoc.description || '',
       filename: dbDoc.filename,
-      url: dbDoc.file_url,
+      storagePath: dbDoc.storage_path,
       size: dbDoc.size || 0,
-      type: dbDoc.type,
+      docType: dbDoc.doc_type,
       required: dbDoc.required || false,
       products: [],
       productType: dbDoc.product_type as ProductType,
+      submittalCategoryIds: (dbDoc.document_submittal_categories || []).map((tag: any) => tag.category_id),
+      currentVersion: dbDoc.current_version || 1,
+      effectiveDate: dbDoc.effective_date,
+      expirationDate: dbDoc.expiration_date,
+      textIndexedAt: dbDoc.text_indexed_at,
+      contentHash: dbDoc.content_hash,
+      updatedAt: dbDoc.updated_at,
     }
   }
 
   /**
-   * Detect document type from filename
+   * Map database document version to frontend DocumentVersion type
    */
-  private detectDocumentType(filename: string): DocumentType {
-    const lower = filename.toLowerCase()
-
-    if (lower.includes('tds') || lower.includes('technical data')) return 'TDS'
-    if (lower.includes('esr') || lower.includes('evaluation report')) return 'ESR'
-    if (lower.includes('msds') || lower.includes('safety data')) return 'MSDS'
-    if (lower.includes('leed')) return 'LEED'
-    if (lower.includes('installation') || lower.includes('install')) return 'Installation'
-    if (lower.includes('warranty')) return 'warranty'
-    if (lower.includes('acoustic') || lower.includes('esl')) return 'Acoustic'
-    if (lower.includes('spec') || lower.includes('3-part')) return 'PartSpec'
-
-    return 'TDS'
-  }
-
-  /**
-   * Extract a clean document name from filename
-   */
-  private extractDocumentName(filename: string, type: DocumentType): string {
-    let name = filename.replace(/\.pdf$/i, '')
-
-    const typeMap: Record<DocumentType, string> = {
-      TDS: 'Technical Data Sheet',
-      ESR: 'Evaluation Report',
-      MSDS: 'Material Safety Data Sheet',
-      LEED: 'LEED Credit Guide',
-      Installation: 'Installation Guide',
-      warranty: 'Limited Warranty',
-      Acoustic: 'Acoustical Performance',
-      PartSpec: '3-Part Specifications',
+  private mapDatabaseToVersion(dbVersion: any): DocumentVersion {
+    return {
+      id: dbVersion.id,
+      documentId: dbVersion.document_id,
+      versionNumber: dbVersion.version_number,
+      filename: dbVersion.filename,
+      storagePath: dbVersion.storage_path,
+      size: dbVersion.size || 0,
+      notes: dbVersion.notes || '',
+      createdAt: dbVersion.created_at,
     }
-
-    return typeMap[type] || name
   }
 }
 
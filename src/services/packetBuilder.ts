@@ -0,0 +1,659 @@
+// src/services/packetBuilder.ts
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib'
+import type {
+  PacketLayoutOptions,
+  PacketRevisionInfo,
+  PageStampOptions,
+  ProjectFormData,
+  SelectedDocument,
+} from '@/types'
+import { documentTypeConfig } from '@/data/documents'
+import { documentService } from './documentService'
+import { productService } from './productService'
+import { groupChecklist } from '@/utils/submittalChecklist'
+import { addInternalLink, addOutline, type OutlineEntry } from '@/utils/pdfNavigation'
+import { resolvePageIndices } from '@/utils/pageRanges'
+
+// US Letter, in PDF points
+const PAGE_SIZE: [number, number] = [612, 792]
+const MARGIN = 54
+const TOC_ROW_HEIGHT = 20
+const TOC_ROWS_PER_PAGE = 28
+// Divider tabs step down the right edge and wrap after this many sections
+const DIVIDER_TAB_POSITIONS = 8
+
+const BRAND_COLOR = rgb(0, 0.635, 0.788) // #00A2C9
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+const RULE_COLOR = rgb(0.82, 0.84, 0.87)
+const WHITE = rgb(1, 1, 1)
+
+// PDF equivalents of the Tailwind colours used by documentTypeConfig
+const TYPE_COLORS: Record<string, RGB> = {
+  blue: rgb(0.23, 0.51, 0.96),
+  green: rgb(0.13, 0.77, 0.37),
+  red: rgb(0.94, 0.27, 0.27),
+  emerald: rgb(0.06, 0.73, 0.51),
+  orange: rgb(0.98, 0.45, 0.09),
+  purple: rgb(0.66, 0.33, 0.97),
+  indigo: rgb(0.39, 0.4, 0.95),
+  gray: rgb(0.42, 0.45, 0.5),
+}
+
+interface PacketFonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+interface PacketSection {
+  title: string
+  firstPage: PDFPage
+  pageNumber: number
+}
+
+export const DEFAULT_PACKET_LAYOUT: PacketLayoutOptions = {
+  includeTableOfContents: true,
+  includeBookmarks: true,
+  includeDividers: false,
+  stamp: {
+    enabled: false,
+    showProjectName: true,
+    showProjectNumber: true,
+    showStatus: true,
+    numbering: 'pageOfTotal',
+    batesPrefix: 'SUB-',
+    batesStart: 1,
+  },
+}
+
+const STATUS_LABELS: Array<[keyof ProjectFormData['status'], string]> = [
+  ['forReview', 'For Review'],
+  ['forApproval', 'For Approval'],
+  ['forRecord', 'For Record'],
+  ['forInformationOnly', 'For Information Only'],
+]
+
+/**
+ * The standard fonts only cover WinAnsi; anything outside it would make
+ * pdf-lib throw while drawing, so replace it up front.
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•…€]/g, '?')
+}
+
+/**
+ * Truncate text with an ellipsis so it fits within maxWidth
+ */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  const safe = toWinAnsi(text)
+  if (font.widthOfTextAtSize(safe, size) <= maxWidth) return safe
+
+  let truncated = safe
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1)
+  }
+  return `${truncated}...`
+}
+
+/**
+ * Format the page number stamped on the page at `index` (zero-based)
+ */
+export function formatPageNumber(stamp: PageStampOptions, index: number, total: number): string {
+  if (stamp.numbering === 'bates') {
+    return `${stamp.batesPrefix}${String(stamp.batesStart + index).padStart(4, '0')}`
+  }
+  if (stamp.numbering === 'pageOfTotal') {
+    return `Page ${index + 1} of ${total}`
+  }
+  return ''
+}
+
+/**
+ * Builds submittal packets entirely in the browser with pdf-lib.
+ * Used when the Cloudflare worker is unreachable or explicitly bypassed.
+ */
+export class PacketBuilder {
+  async buildPacket(
+    formData: Partial<ProjectFormData>,
+    selectedDocuments: SelectedDocument[],
+    layout: PacketLayoutOptions = DEFAULT_PACKET_LAYOUT,
+    revision?: PacketRevisionInfo
+  ): Promise<Uint8Array> {
+    const sortedDocs = selectedDocuments
+      .filter(doc => doc.selected)
+      .sort((a, b) => a.order - b.order)
+
+    if (sortedDocs.length === 0) {
+      throw new Error('No documents selected for packet generation')
+    }
+
+    // Download everything up front so a missing file fails before any work is done
+    const sources = await Promise.all(
+      sortedDocs.map(async (doc) => {
+        try {
+          const bytes = await documentService.fetchDocumentBytes(doc.document, doc.pinnedVersion)
+          const source = await PDFDocument.load(bytes, { ignoreEncryption: true })
+          if (source.getPageCount() === 0) {
+            throw new Error('Document has no pages')
+          }
+          return source
+        } catch (error) {
+          console.error(`Error loading document ${doc.document.name}:`, error)
+          throw new Error(`Failed to process document: ${doc.document.name}`)
+        }
+      })
+    )
+
+    // Check page ranges against the actual files before building anything
+    const pageIndices = sources.map((source, index) => {
+      try {
+        return resolvePageIndices(sortedDocs[index].pageRange, source.getPageCount())
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new Error(`Invalid page range for ${sortedDocs[index].document.name}: ${reason}`)
+      }
+    })
+
+    const product = formData.productType ? await productService.getProduct(formData.productType) : null
+    const productTitle = product ? product.description || product.name : undefined
+
+    const packet = await PDFDocument.create()
+    const fonts: PacketFonts = {
+      regular: await packet.embedFont(StandardFonts.Helvetica),
+      bold: await packet.embedFont(StandardFonts.HelveticaBold),
+    }
+
+    const projectName = formData.projectName || 'Untitled'
+    packet.setTitle(toWinAnsi(`${projectName} - Submittal Packet`))
+    packet.setSubject('Submittal Packet')
+    packet.setCreator('MAXTERRA PDF Packet Builder')
+    packet.setProducer('pdf-lib')
+    packet.setCreationDate(new Date())
+
+    const coverPage = packet.addPage(PAGE_SIZE)
+    this.drawCoverPage(coverPage, fonts, formData, sortedDocs, productTitle, revision)
+
+    // Reserve the contents pages now; page numbers are only known once every document is in
+    const tocPageCount = layout.includeTableOfContents ? Math.ceil(sortedDocs.length / TOC_ROWS_PER_PAGE) : 0
+    const tocPages = Array.from({ length: tocPageCount }, () => packet.addPage(PAGE_SIZE))
+
+    const sections: PacketSection[] = []
+    for (const [index, source] of sources.entries()) {
+      const pageNumber = packet.getPageCount() + 1
+      const divider = layout.includeDividers ? packet.addPage(PAGE_SIZE) : undefined
+      if (divider) {
+        this.drawDividerPage(divider, fonts, sortedDocs[index], index, projectName)
+      }
+
+      const pages = await packet.copyPages(source, pageIndices[index])
+      pages.forEach(page => packet.addPage(page))
+      // Links and bookmarks land on the divider so the section opens with its tab
+      sections.push({ title: sortedDocs[index].document.name, firstPage: divider || pages[0], pageNumber })
+    }
+
+    if (tocPages.length > 0) {
+      this.drawTableOfContents(tocPages, fonts, sections, projectName)
+    }
+
+    if (layout.stamp.enabled) {
+      this.stampPages(packet.getPages(), fonts, formData, layout.stamp)
+    }
+
+    if (layout.includeBookmarks) {
+      const outline: OutlineEntry[] = [
+        { title: 'Cover Page', page: coverPage },
+        ...(tocPages.length > 0 ? [{ title: 'Table of Contents', page: tocPages[0] }] : []),
+        ...sections.map(section => ({ title: section.title, page: section.firstPage })),
+      ]
+      addOutline(packet, outline)
+    }
+
+    const bytes = await packet.save()
+    console.log(`PDF assembled in browser: ${bytes.byteLength} bytes`)
+    return bytes
+  }
+
+  /**
+   * Draw the submittal cover page: project details, status, submittal
+   * checklist and the list of included documents
+   */
+  private drawCoverPage(
+    page: PDFPage,
+    fonts: PacketFonts,
+    formData: Partial<ProjectFormData>,
+    sortedDocs: SelectedDocument[],
+    productTitle?: string,
+    revision?: PacketRevisionInfo
+  ): void {
+    const { width, height } = page.getSize()
+    const contentWidth = width - MARGIN * 2
+
+    // Header band
+    page.drawRectangle({ x: 0, y: height - 96, width, height: 96, color: BRAND_COLOR })
+    page.drawText('SUBMITTAL FORM', {
+      x: MARGIN,
+      y: height - 50,
+      size: 24,
+      font: fonts.bold,
+      color: WHITE,
+    })
+    if (revision) {
+      const revisionLabel = `REV ${revision.number}`
+      page.drawText(revisionLabel, {
+        x: width - MARGIN - fonts.bold.widthOfTextAtSize(revisionLabel, 20),
+        y: height - 50,
+        size: 20,
+        font: fonts.bold,
+        color: WHITE,
+      })
+    }
+    if (productTitle) {
+      page.drawText(fitText(productTitle, fonts.regular, 11, contentWidth), {
+        x: MARGIN,
+        y: height - 72,
+        size: 11,
+        font: fonts.regular,
+        color: WHITE,
+      })
+    }
+
+    let y = height - 130
+
+    // Project information
+    y = this.drawSectionHeading(page, fonts, 'PROJECT INFORMATION', y)
+    const infoRows: Array<[string, string | undefined]> = [
+      ['Submitted To', formData.submittedTo],
+      ['Project Name', formData.projectName],
+      ['Project Number', formData.projectNumber],
+      ['Prepared By', formData.preparedBy],
+      ['Email', formData.emailAddress],
+      ['Phone', formData.phoneNumber],
+      ['Date', formData.date],
+      ['Product Size', formData.productSize],
+    ]
+    const columnWidth = contentWidth / 2
+    infoRows.forEach(([label, value], index) => {
+      const x = MARGIN + (index % 2) * columnWidth
+      const rowY = y - Math.floor(index / 2) * 30
+      page.drawText(label.toUpperCase(), { x, y: rowY, size: 7, font: fonts.bold, color: MUTED_COLOR })
+      page.drawText(fitText(value || 'N/A', fonts.regular, 10, columnWidth - 12), {
+        x,
+        y: rowY - 12,
+        size: 10,
+        font: fonts.regular,
+        color: TEXT_COLOR,
+      })
+    })
+    y -= Math.ceil(infoRows.length / 2) * 30 + 14
+
+    // Status / action
+    y = this.drawSectionHeading(page, fonts, 'STATUS / ACTION', y)
+    const statusWidth = contentWidth / STATUS_LABELS.length
+    STATUS_LABELS.forEach(([key, label], index) => {
+      this.drawCheckbox(page, fonts, MARGIN + index * statusWidth, y, label, !!formData.status?.[key])
+    })
+    y -= 32
+
+    // Submittal type checklist, computed from the selected documents' category tags
+    const checklistEntries = groupChecklist(formData.submittalChecklist || []).flatMap(({ group, items }) =>
+      group
+        ? [
+            { text: group, checked: items.some(item => item.checked), indent: 0 },
+            ...items.map(item => ({ text: item.label, checked: item.checked, indent: 1 })),
+          ]
+        : items.map(item => ({ text: item.label, checked: item.checked, indent: 0 }))
+    )
+    if (checklistEntries.length > 0) {
+      y = this.drawSectionHeading(page, fonts, 'SUBMITTAL TYPE', y)
+      const checklistColumns = 3
+      const checklistRows = Math.ceil(checklistEntries.length / checklistColumns)
+      const checklistWidth = contentWidth / checklistColumns
+      const rowHeight = 14
+      checklistEntries.forEach((entry, index) => {
+        const column = Math.floor(index / checklistRows)
+        const row = index % checklistRows
+        const indent = entry.indent * 14
+        this.drawCheckbox(
+          page,
+          fonts,
+          MARGIN + column * checklistWidth + indent,
+          y - row * rowHeight,
+          fitText(entry.text, fonts.regular, 9, checklistWidth - indent - 24),
+          entry.checked
+        )
+      })
+      y -= checklistRows * rowHeight + 18
+    }
+
+    // Revision history, most recent revisions only
+    if (revision && revision.history.length > 0) {
+      y = this.drawSectionHeading(page, fonts, 'REVISION HISTORY', y)
+      const columns = [MARGIN, MARGIN + 44, MARGIN + 140]
+      const rowHeight = 13
+      const headers = ['REV', 'DATE', 'CHANGES']
+      headers.forEach((label, index) => {
+        page.drawText(label, { x: columns[index], y, size: 7, font: fonts.bold, color: MUTED_COLOR })
+      })
+      const rows = revision.history.slice(-4)
+      rows.forEach((entry, index) => {
+        const rowY = y - (index + 1) * rowHeight
+        const font = entry.revision === revision.number ? fonts.bold : fonts.regular
+        page.drawText(String(entry.revision), { x: columns[0], y: rowY, size: 9, font, color: TEXT_COLOR })
+        page.drawText(new Date(entry.date).toLocaleDateString(), { x: columns[1], y: rowY, size: 9, font, color: TEXT_COLOR })
+        page.drawText(fitText(entry.summary, font, 9, width - MARGIN - columns[2]), {
+          x: columns[2],
+          y: rowY,
+          size: 9,
+          font,
+          color: TEXT_COLOR,
+        })
+      })
+      y -= (rows.length + 1) * rowHeight + 18
+    }
+
+    // Included documents
+    y = this.drawSectionHeading(page, fonts, 'DOCUMENTS INCLUDED', y)
+    const lineHeight = 14
+    const footerY = MARGIN
+    const availableLines = Math.max(1, Math.floor((y - footerY - 20) / lineHeight))
+    const listed = sortedDocs.length > availableLines ? sortedDocs.slice(0, availableLines - 1) : sortedDocs
+
+    listed.forEach((doc, index) => {
+      const pagesNote = doc.pageRange ? ` (pages ${doc.pageRange})` : ''
+      page.drawText(fitText(`${index + 1}. ${doc.document.name}${pagesNote}`, fonts.regular, 10, contentWidth), {
+        x: MARGIN,
+        y: y - index * lineHeight,
+        size: 10,
+        font: fonts.regular,
+        color: TEXT_COLOR,
+      })
+    })
+    if (listed.length < sortedDocs.length) {
+      page.drawText(`...and ${sortedDocs.length - listed.length} more`, {
+        x: MARGIN,
+        y: y - listed.length * lineHeight,
+        size: 10,
+        font: fonts.regular,
+        color: MUTED_COLOR,
+      })
+    }
+
+    // Footer
+    page.drawLine({
+      start: { x: MARGIN, y: footerY + 12 },
+      end: { x: width - MARGIN, y: footerY + 12 },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+    page.drawText(`Generated ${new Date().toLocaleDateString()}`, {
+      x: MARGIN,
+      y: footerY,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED_COLOR,
+    })
+  }
+
+  /**
+   * Stamp the running header (project name / number) and footer (status /
+   * page number) onto every page. Source pages come in any size, crop box
+   * and rotation, so positions are worked out in the page's displayed
+   * orientation and mapped back to its unrotated coordinate space.
+   */
+  private stampPages(
+    pages: PDFPage[],
+    fonts: PacketFonts,
+    formData: Partial<ProjectFormData>,
+    stamp: PageStampOptions
+  ): void {
+    const statusText = STATUS_LABELS
+      .filter(([key]) => formData.status?.[key])
+      .map(([, label]) => label.toUpperCase())
+      .join(' / ')
+    const size = 8
+    const edge = 18
+
+    pages.forEach((page, index) => {
+      // Isolate the existing content so a graphics state it leaves behind cannot skew the stamp
+      page.translateContent(0, 0)
+      page.resetPosition()
+
+      const box = page.getCropBox()
+      const angle = ((Math.round(page.getRotation().angle / 90) * 90) % 360 + 360) % 360
+      const quarterTurn = angle === 90 || angle === 270
+      const viewWidth = quarterTurn ? box.height : box.width
+      const viewHeight = quarterTurn ? box.width : box.height
+
+      // Displayed (upright) coordinates -> unrotated page coordinates
+      const toPage = (vx: number, vy: number) => {
+        switch (angle) {
+          case 90: return { x: box.x + box.width - vy, y: box.y + vx }
+          case 180: return { x: box.x + box.width - vx, y: box.y + box.height - vy }
+          case 270: return { x: box.x + vy, y: box.y + box.height - vx }
+          default: return { x: box.x + vx, y: box.y + vy }
+        }
+      }
+
+      const drawLabel = (text: string, align: 'left' | 'right', vy: number, font: PDFFont) => {
+        if (!text) return
+        const safe = fitText(text, font, size, viewWidth / 2 - edge - 6)
+        const textWidth = font.widthOfTextAtSize(safe, size)
+        const vx = align === 'left' ? edge : viewWidth - edge - textWidth
+        // White backing keeps the stamp legible over whatever the source page has at its edges
+        const backing = toPage(vx - 3, vy - 3)
+        page.drawRectangle({
+          x: backing.x,
+          y: backing.y,
+          width: textWidth + 6,
+          height: size + 5,
+          color: WHITE,
+          rotate: degrees(angle),
+        })
+        const origin = toPage(vx, vy)
+        page.drawText(safe, { x: origin.x, y: origin.y, size, font, color: TEXT_COLOR, rotate: degrees(angle) })
+      }
+
+      const headerY = viewHeight - edge - size
+      drawLabel(stamp.showProjectName ? formData.projectName || '' : '', 'left', headerY, fonts.bold)
+      drawLabel(stamp.showProjectNumber && formData.projectNumber ? `Project No. ${formData.projectNumber}` : '', 'right', headerY, fonts.regular)
+      drawLabel(stamp.showStatus ? statusText : '', 'left', edge, fonts.regular)
+      drawLabel(formatPageNumber(stamp, index, pages.length), 'right', edge, fonts.bold)
+    })
+  }
+
+  /**
+   * Draw the slip sheet placed in front of a document: section number,
+   * document name and type, plus a tab on the right edge
+   */
+  private drawDividerPage(
+    page: PDFPage,
+    fonts: PacketFonts,
+    doc: SelectedDocument,
+    index: number,
+    projectName: string
+  ): void {
+    const { width, height } = page.getSize()
+    const contentWidth = width - MARGIN * 2
+    const sectionNumber = String(index + 1)
+    const typeConfig = documentTypeConfig[doc.document.docType]
+    const typeColor = (typeConfig && TYPE_COLORS[typeConfig.color]) || BRAND_COLOR
+
+    // Tab on the right edge, stepping down with each section like physical index tabs
+    const tabHeight = (height - MARGIN * 2) / DIVIDER_TAB_POSITIONS
+    const tabY = height - MARGIN - ((index % DIVIDER_TAB_POSITIONS) + 1) * tabHeight
+    page.drawRectangle({ x: width - 36, y: tabY + 2, width: 36, height: tabHeight - 4, color: typeColor })
+    page.drawText(sectionNumber, {
+      x: width - 18 - fonts.bold.widthOfTextAtSize(sectionNumber, 16) / 2,
+      y: tabY + tabHeight / 2 - 6,
+      size: 16,
+      font: fonts.bold,
+      color: WHITE,
+    })
+
+    const textWidth = contentWidth - 36
+    let y = height / 2 + 60
+    page.drawText(`SECTION ${sectionNumber}`, { x: MARGIN, y, size: 14, font: fonts.bold, color: BRAND_COLOR })
+    y -= 12
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: MARGIN + textWidth, y },
+      thickness: 1.5,
+      color: BRAND_COLOR,
+    })
+    y -= 36
+    page.drawText(fitText(doc.document.name, fonts.bold, 26, textWidth), {
+      x: MARGIN,
+      y,
+      size: 26,
+      font: fonts.bold,
+      color: TEXT_COLOR,
+    })
+
+    if (typeConfig) {
+      y -= 40
+      const badgeText = typeConfig.label.toUpperCase()
+      const badgeWidth = fonts.bold.widthOfTextAtSize(badgeText, 9) + 16
+      page.drawRectangle({ x: MARGIN, y: y - 6, width: badgeWidth, height: 20, color: typeColor })
+      page.drawText(badgeText, { x: MARGIN + 8, y, size: 9, font: fonts.bold, color: WHITE })
+    }
+
+    // Footer
+    page.drawLine({
+      start: { x: MARGIN, y: MARGIN + 12 },
+      end: { x: MARGIN + textWidth, y: MARGIN + 12 },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+    page.drawText(fitText(projectName, fonts.regular, 8, textWidth), {
+      x: MARGIN,
+      y: MARGIN,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED_COLOR,
+    })
+  }
+
+  /**
+   * Fill the reserved contents pages: one linked row per document with its
+   * starting page number
+   */
+  private drawTableOfContents(
+    pages: PDFPage[],
+    fonts: PacketFonts,
+    sections: PacketSection[],
+    projectName: string
+  ): void {
+    pages.forEach((page, pageIndex) => {
+      const { width, height } = page.getSize()
+      const contentWidth = width - MARGIN * 2
+
+      page.drawRectangle({ x: 0, y: height - 96, width, height: 96, color: BRAND_COLOR })
+      page.drawText(pageIndex === 0 ? 'TABLE OF CONTENTS' : 'TABLE OF CONTENTS (CONTINUED)', {
+        x: MARGIN,
+        y: height - 50,
+        size: 24,
+        font: fonts.bold,
+        color: WHITE,
+      })
+      page.drawText(fitText(projectName, fonts.regular, 11, contentWidth), {
+        x: MARGIN,
+        y: height - 72,
+        size: 11,
+        font: fonts.regular,
+        color: WHITE,
+      })
+
+      let y = this.drawSectionHeading(page, fonts, 'SECTION', height - 130)
+      const pageLabel = 'PAGE'
+      page.drawText(pageLabel, {
+        x: width - MARGIN - fonts.bold.widthOfTextAtSize(pageLabel, 11),
+        y: height - 130,
+        size: 11,
+        font: fonts.bold,
+        color: BRAND_COLOR,
+      })
+
+      const start = pageIndex * TOC_ROWS_PER_PAGE
+      sections.slice(start, start + TOC_ROWS_PER_PAGE).forEach((section, offset) => {
+        const number = String(section.pageNumber)
+        const numberWidth = fonts.regular.widthOfTextAtSize(number, 10)
+        const title = fitText(`${start + offset + 1}. ${section.title}`, fonts.regular, 10, contentWidth - numberWidth - 40)
+        const titleWidth = fonts.regular.widthOfTextAtSize(title, 10)
+
+        page.drawText(title, { x: MARGIN, y, size: 10, font: fonts.regular, color: TEXT_COLOR })
+        page.drawText(number, {
+          x: width - MARGIN - numberWidth,
+          y,
+          size: 10,
+          font: fonts.regular,
+          color: TEXT_COLOR,
+        })
+
+        // Dot leader between the title and the page number
+        const leaderStart = MARGIN + titleWidth + 6
+        const leaderWidth = width - MARGIN - numberWidth - 6 - leaderStart
+        const dotWidth = fonts.regular.widthOfTextAtSize('.', 10)
+        if (leaderWidth > dotWidth) {
+          page.drawText('.'.repeat(Math.floor(leaderWidth / dotWidth)), {
+            x: leaderStart,
+            y,
+            size: 10,
+            font: fonts.regular,
+            color: MUTED_COLOR,
+          })
+        }
+
+        addInternalLink(page, { x: MARGIN, y: y - 5, width: contentWidth, height: TOC_ROW_HEIGHT - 2 }, section.firstPage)
+        y -= TOC_ROW_HEIGHT
+      })
+    })
+  }
+
+  /**
+   * Draw a section heading with a rule underneath; returns the next baseline
+   */
+  private drawSectionHeading(page: PDFPage, fonts: PacketFonts, title: string, y: number): number {
+    const { width } = page.getSize()
+    page.drawText(title, { x: MARGIN, y, size: 11, font: fonts.bold, color: BRAND_COLOR })
+    page.drawLine({
+      start: { x: MARGIN, y: y - 5 },
+      end: { x: width - MARGIN, y: y - 5 },
+      thickness: 0.75,
+      color: RULE_COLOR,
+    })
+    return y - 22
+  }
+
+  private drawCheckbox(
+    page: PDFPage,
+    fonts: PacketFonts,
+    x: number,
+    y: number,
+    label: string,
+    checked: boolean
+  ): void {
+    const size = 9
+    page.drawRectangle({
+      x,
+      y: y - 1,
+      width: size,
+      height: size,
+      borderColor: TEXT_COLOR,
+      borderWidth: 0.75,
+    })
+    if (checked) {
+      page.drawLine({ start: { x: x + 1.8, y: y + 3.5 }, end: { x: x + 3.8, y: y + 1.2 }, thickness: 1.2, color: BRAND_COLOR })
+      page.drawLine({ start: { x: x + 3.8, y: y + 1.2 }, end: { x: x + 7.5, y: y + 6.8 }, thickness: 1.2, color: BRAND_COLOR })
+    }
+    page.drawText(toWinAnsi(label), {
+      x: x + size + 5,
+      y,
+      size: 9,
+      font: fonts.regular,
+      color: TEXT_COLOR,
+    })
+  }
+}
+
+// Export singleton instance
+export const packetBuilder = new PacketBuilder()
@@ -1,39 +1,134 @@
 // src/services/pdfService.ts
-import type { ProjectFormData, SelectedDocument, Document, ProductType } from '@/types'
+import type { ProjectFormData, SelectedDocument, Document, ProductType, PacketEngine, PacketLayoutOptions, PacketRevisionInfo } from '@/types'
 import { documentService } from './documentService'
+import { packetBuilder, DEFAULT_PACKET_LAYOUT } from './packetBuilder'
+import { productService } from './productService'
+import { getMissingRequiredDocuments } from '@/utils/requiredDocuments'
+
+const PACKET_ENGINES: PacketEngine[] = ['auto', 'worker', 'local']
+
+export interface GeneratePacketOptions extends Partial<PacketLayoutOptions> {
+  engine?: PacketEngine
+  /** Revision of a saved project this packet is generated as; printed on the cover */
+  revision?: PacketRevisionInfo
+  /** Called when the worker failed in 'auto' mode and the in-browser engine took over */
+  onFallback?: (error: Error) => void
+  /** Called when the packet uses features the worker cannot build, so the in-browser engine is used instead */
+  onWorkerUnsupported?: (features: string[]) => void
+  /** Called as the worker's PDF arrives; totalBytes is missing when the worker does not send a length */
+  onProgress?: (receivedBytes: number, totalBytes?: number) => void
+}
 
 export class PDFService {
   private workerUrl: string
+  readonly defaultEngine: PacketEngine
 
   constructor() {
     this.workerUrl = import.meta.env.VITE_WORKER_URL || 'https://pdf-packet-generator.maxterra-pdf-builder.workers.dev'
-    console.log('Using Worker URL:', this.workerUrl)
+    const configuredEngine = import.meta.env.VITE_PDF_ENGINE as PacketEngine | undefined
+    this.defaultEngine = configuredEngine && PACKET_ENGINES.includes(configuredEngine) ? configuredEngine : 'auto'
+    console.log('Using Worker URL:', this.workerUrl, `(engine: ${this.defaultEngine})`)
   }
 
   async generatePacket(
     formData: Partial<ProjectFormData>,
-    selectedDocuments: SelectedDocument[]
+    selectedDocuments: SelectedDocument[],
+    options: GeneratePacketOptions = {}
   ): Promise<Uint8Array> {
+    const { engine: requestedEngine, onFallback, onWorkerUnsupported, onProgress, revision, ...layoutOverrides } = options
+    const engine = requestedEngine || this.defaultEngine
+    const layout: PacketLayoutOptions = { ...DEFAULT_PACKET_LAYOUT, ...layoutOverrides }
+
+    const sortedDocs = selectedDocuments
+      .filter(doc => doc.selected)
+      .sort((a, b) => a.order - b.order)
+
+    if (sortedDocs.length === 0) {
+      throw new Error('No documents selected for packet generation')
+    }
+
+    await this.validateRequiredDocuments(formData.productType, selectedDocuments)
+
+    if (engine === 'local') {
+      return packetBuilder.buildPacket(formData, sortedDocs, layout, revision)
+    }
+
+    const unsupportedFeatures = this.getWorkerUnsupportedFeatures(sortedDocs, layout, revision)
+    if (unsupportedFeatures.length > 0) {
+      console.log(`Worker does not support ${unsupportedFeatures.join(', ')} yet; assembling packet in browser instead`)
+      onWorkerUnsupported?.(unsupportedFeatures)
+      return packetBuilder.buildPacket(formData, sortedDocs, layout, revision)
+    }
+
+    if (engine === 'worker') {
+      return this.generateWithWorker(formData, sortedDocs, layout, revision, onProgress)
+    }
+
     try {
-      const sortedDocs = selectedDocuments
-        .filter(doc => doc.selected)
-        .sort((a, b) => a.order - b.order)
+      return await this.generateWithWorker(formData, sortedDocs, layout, revision, onProgress)
+    } catch (workerError) {
+      const error = workerError instanceof Error ? workerError : new Error('Failed to generate PDF packet')
+      console.warn('Worker generation failed, assembling packet in browser instead:', error)
+      onFallback?.(error)
+      return packetBuilder.buildPacket(formData, sortedDocs, layout, revision)
+    }
+  }
 
-      if (sortedDocs.length === 0) {
-        throw new Error('No documents selected for packet generation')
-      }
+  /**
+   * The deployed worker predates the table of contents, bookmarks, dividers,
+   * page stamps, page ranges and revision labels, and would silently leave
+   * them out of the packet. Returns the ones this packet uses.
+   */
+  private getWorkerUnsupportedFeatures(sortedDocs: SelectedDocument[], layout: PacketLayoutOptions, revision?: PacketRevisionInfo): string[] {
+    const features: string[] = []
+    if (layout.includeTableOfContents) features.push('a table of contents')
+    if (layout.includeBookmarks) features.push('bookmarks')
+    if (layout.includeDividers) features.push('dividers')
+    if (layout.stamp.enabled) features.push('page stamps')
+    if (sortedDocs.some(doc => !!doc.pageRange)) features.push('page ranges')
+    if (revision) features.push('revision labels')
+    return features
+  }
+
+  /**
+   * Every required document of the product must be in the packet, unless it
+   * was left out with a reason
+   */
+  async validateRequiredDocuments(productType: ProductType | undefined, selectedDocuments: SelectedDocument[]): Promise<void> {
+    if (!productType) return
 
-      // Fetch file data for uploaded documents
-      const documentsWithData = await Promise.all(
+    const productDocuments = await documentService.getDocumentsByProductType(productType)
+    const missing = getMissingRequiredDocuments(selectedDocuments, productDocuments)
+    if (missing.length > 0) {
+      throw new Error(
+        `Required documents missing from the packet: ${missing.map(doc => doc.name).join(', ')}. ` +
+        'Add them or give a reason for leaving them out.'
+      )
+    }
+  }
+
+  /**
+   * Generate the packet through the Cloudflare worker. Documents are sent as
+   * signed links that the worker downloads itself, so the request stays small
+   * however large the files are; the PDF is read back as a stream.
+   */
+  private async generateWithWorker(
+    formData: Partial<ProjectFormData>,
+    sortedDocs: SelectedDocument[],
+    layout: PacketLayoutOptions,
+    revision?: PacketRevisionInfo,
+    onProgress?: (receivedBytes: number, totalBytes?: number) => void
+  ): Promise<Uint8Array> {
+    try {
+      const documentReferences = await Promise.all(
         sortedDocs.map(async (doc) => {
           try {
-            const fileData = await documentService.exportDocumentAsBase64(doc.document.id)
             return {
               id: doc.id,
               name: doc.document.name,
-              url: doc.document.url || '',
-              type: doc.document.type,
-              fileData: fileData || undefined,
+              url: (await documentService.resolveDocumentUrl(doc.document, doc.pinnedVersion)).url,
+              type: doc.document.docType,
+              pageRange: doc.pageRange || undefined,
             }
           } catch (error) {
             console.error(`Error processing document ${doc.document.name}:`, error)
@@ -44,36 +139,28 @@ export class PDFService {
 
       const selectedDocumentNames = sortedDocs.map(doc => doc.document.name)
       const productType = formData.productType as ProductType
-      const allCategoryDocs = await documentService.getDocumentsByProductType(productType)
+      const [allCategoryDocs, product] = await Promise.all([
+        documentService.getDocumentsByProductType(productType),
+        productService.getProduct(productType),
+      ])
 
       // Prepare request payload
       const payload = {
         projectData: {
           ...formData,
+          productName: product?.name || productType,
+          productDescription: product?.description || '',
           status: formData.status || {
             forReview: false,
             forApproval: false,
             forRecord: false,
             forInformationOnly: false,
           },
-          submittalType: formData.submittalType || {
-            tds: false,
-            threePartSpecs: false,
-            testReportIccEsr5194: false,
-            testReportIccEsl1645: false,
-            fireAssembly: false,
-            fireAssembly01: false,
-            fireAssembly02: false,
-            fireAssembly03: false,
-            msds: false,
-            leedGuide: false,
-            installationGuide: false,
-            warranty: false,
-            samples: false,
-            other: false,
-          },
+          submittalChecklist: formData.submittalChecklist || [],
         },
-        documents: documentsWithData,
+        documents: documentReferences,
+        layout,
+        revision: revision || null,
         selectedDocumentNames,
         allAvailableDocuments: allCategoryDocs.map(doc => doc.name)
       }
@@ -82,10 +169,8 @@ export class PDFService {
         url: `${this.workerUrl}/generate-packet`,
         payload: {
           ...payload,
-          documents: payload.documents.map(d => ({
-            ...d,
-            fileData: d.fileData ? `${d.fileData.substring(0, 30)}...` : 'No file data'
-          }))
+          // Signed links are credentials; keep them out of the console
+          documents: payload.documents.map(d => ({ ...d, url: d.url.split('?')[0] }))
         }
       })
 
@@ -109,13 +194,13 @@ export class PDFService {
         throw new Error(errorMessage)
       }
 
-      const pdfBuffer = await response.arrayBuffer()
-      if (pdfBuffer.byteLength === 0) {
+      const pdfBytes = await this.readStream(response, onProgress)
+      if (pdfBytes.byteLength === 0) {
         throw new Error('Received empty PDF from worker')
       }
 
-      console.log(`PDF generated successfully: ${pdfBuffer.byteLength} bytes`)
-      return new Uint8Array(pdfBuffer)
+      console.log(`PDF generated successfully: ${pdfBytes.byteLength} bytes`)
+      return pdfBytes
 
     } catch (error) {
       console.error('Error in generatePacket:', error)
@@ -129,6 +214,44 @@ export class PDFService {
     }
   }
 
+  /**
+   * Read a response body chunk by chunk, reporting how much has arrived
+   */
+  private async readStream(
+    response: Response,
+    onProgress?: (receivedBytes: number, totalBytes?: number) => void
+  ): Promise<Uint8Array> {
+    const totalBytes = Number(response.headers.get('Content-Length')) || undefined
+
+    if (!response.body) {
+      const buffer = new Uint8Array(await response.arrayBuffer())
+      onProgress?.(buffer.byteLength, totalBytes)
+      return buffer
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let receivedBytes = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      receivedBytes += value.byteLength
+      onProgress?.(receivedBytes, totalBytes)
+    }
+
+    // Copy once into a single buffer instead of growing one per chunk
+    const pdfBytes = new Uint8Array(receivedBytes)
+    let offset = 0
+    for (const chunk of chunks) {
+      pdfBytes.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+
+    return pdfBytes
+  }
+
   /**
    * Preview PDF in new tab
    */
@@ -0,0 +1,160 @@
+import type { Product, ProductType } from '@/types'
+import { supabase } from '@/lib/supabaseClient'
+import { authService } from './authService'
+
+export type ProductInput = Omit<Product, 'id'> & { id?: ProductType }
+
+class ProductService {
+  private cache: Product[] | null = null
+
+  /**
+   * Get all products, including inactive ones (admin view)
+   */
+  async getAllProducts(): Promise<Product[]> {
+    if (this.cache) return this.cache
+
+    const { data, error } = await supabase
+      .from('products')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching products:', error)
+      throw error
+    }
+
+    this.cache = (data || []).map(this.mapDatabaseToProduct)
+    return this.cache
+  }
+
+  /**
+   * Get products offered in the wizard
+   */
+  async getActiveProducts(): Promise<Product[]> {
+    const products = await this.getAllProducts()
+    return products.filter(product => product.active)
+  }
+
+  /**
+   * Get a single product by its slug
+   */
+  async getProduct(id: ProductType): Promise<Product | null> {
+    const products = await this.getAllProducts()
+    return products.find(product => product.id === id) || null
+  }
+
+  /**
+   * Create a new product
+   */
+  async createProduct(input: ProductInput): Promise<Product> {
+    await authService.requirePermission('manageLibrary')
+    const id = this.slugify(input.id || input.name)
+    if (!id) {
+      throw new Error('Product name is required')
+    }
+
+    const { data, error } = await supabase
+      .from('products')
+      .insert({ id, ...this.mapProductToDatabase(input) })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(
+        error.code === '23505'
+          ? `A product with the id "${id}" already exists`
+          : `Failed to save product: ${error.message}`
+      )
+    }
+
+    this.cache = null
+    return this.mapDatabaseToProduct(data)
+  }
+
+  /**
+   * Update product details
+   */
+  async updateProduct(id: ProductType, updates: Partial<ProductInput>): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const { error } = await supabase
+      .from('products')
+      .update({
+        ...this.mapProductToDatabase(updates),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+
+    this.cache = null
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Delete a product. Fails while documents still belong to it.
+   */
+  async deleteProduct(id: ProductType): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const { error } = await supabase
+      .from('products')
+      .delete()
+      .eq('id', id)
+
+    this.cache = null
+
+    if (error) {
+      if (error.code === '23503') {
+        throw new Error('Move or delete this product\'s documents before deleting it')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Turn a display name into a product id, e.g. "Roof Deck" -> "roof-deck"
+   */
+  slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  }
+
+  /**
+   * Map frontend Product fields to database columns (only those provided)
+   */
+  private mapProductToDatabase(product: Partial<ProductInput>): Record<string, unknown> {
+    const row: Record<string, unknown> = {}
+
+    if (product.name !== undefined) row.name = product.name.trim()
+    if (product.description !== undefined) row.description = product.description
+    if (product.imageUrl !== undefined) row.image_url = product.imageUrl
+    if (product.availableSizes !== undefined) row.available_sizes = product.availableSizes
+    if (product.defaultDocumentIds !== undefined) row.default_document_ids = product.defaultDocumentIds
+    if (product.sortOrder !== undefined) row.sort_order = product.sortOrder
+    if (product.active !== undefined) row.active = product.active
+
+    return row
+  }
+
+  /**
+   * Map database product to frontend Product type
+   */
+  private mapDatabaseToProduct(dbProduct: any): Product {
+    return {
+      id: dbProduct.id,
+      name: dbProduct.name,
+      description: dbProduct.description || '',
+      imageUrl: dbProduct.image_url || '',
+      availableSizes: dbProduct.available_sizes || [],
+      defaultDocumentIds: dbProduct.default_document_ids || [],
+      sortOrder: dbProduct.sort_order ?? 0,
+      active: dbProduct.active ?? true,
+    }
+  }
+}
+
+export const productService = new ProductService()
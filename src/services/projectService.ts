@@ -0,0 +1,314 @@
+import type {
+  PacketDocumentSnapshot,
+  PacketEngine,
+  PacketOptions,
+  PacketRecord,
+  Project,
+  ProjectFormData,
+  ProjectSelectionItem,
+  SelectedDocument,
+} from '@/types'
+import { supabase } from '@/lib/supabaseClient'
+import { documentService } from './documentService'
+
+const BUCKET_NAME = 'packets'
+
+// Projects are always loaded together with their packet history
+const PROJECT_SELECT = '*, packets(*)'
+
+export interface ProjectDraft {
+  formData: Partial<ProjectFormData>
+  selectedDocuments: SelectedDocument[]
+  packetOptions: PacketOptions
+}
+
+export interface PacketRevisionInput {
+  revision: number
+  filename: string
+  bytes: Uint8Array
+  engine: PacketEngine
+  documents: PacketDocumentSnapshot[]
+  changeSummary: string
+}
+
+class ProjectService {
+  /**
+   * Get the signed-in user's projects, most recently updated first, each
+   * with its packet revisions newest first
+   */
+  async getMyProjects(): Promise<Project[]> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(PROJECT_SELECT)
+      .order('updated_at', { ascending: false })
+      .order('revision', { referencedTable: 'packets', ascending: false })
+
+    if (error) {
+      console.error('Error fetching projects:', error)
+      throw error
+    }
+
+    return (data || []).map((row: any) => this.mapDatabaseToProject(row))
+  }
+
+  /**
+   * Get a single project by ID
+   */
+  async getProject(id: string): Promise<Project | null> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(PROJECT_SELECT)
+      .eq('id', id)
+      .order('revision', { referencedTable: 'packets', ascending: false })
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching project:', error)
+      throw error
+    }
+
+    return data ? this.mapDatabaseToProject(data) : null
+  }
+
+  /**
+   * Save the wizard state as a project. Updates the given project when it
+   * still exists for this user, otherwise creates a new one.
+   */
+  async saveProject(draft: ProjectDraft, id?: string): Promise<Project> {
+    const row = {
+      name: draft.formData.projectName?.trim() || 'Untitled',
+      product_type: draft.formData.productType || null,
+      form_data: draft.formData,
+      selection: this.toSelection(draft.selectedDocuments),
+      packet_options: draft.packetOptions,
+    }
+
+    if (id) {
+      const { data, error } = await supabase
+        .from('projects')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(PROJECT_SELECT)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error updating project:', error)
+        throw new Error(`Failed to save project: ${error.message}`)
+      }
+
+      if (data) {
+        return this.mapDatabaseToProject(data)
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('projects')
+      .insert(row)
+      .select(PROJECT_SELECT)
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(`Failed to save project: ${error.message}`)
+    }
+
+    return this.mapDatabaseToProject(data)
+  }
+
+  /**
+   * Copy a project's form data, selection and options into a new project
+   * (packet history is not copied)
+   */
+  async duplicateProject(project: Project): Promise<Project> {
+    const { data, error } = await supabase
+      .from('projects')
+      .insert({
+        name: `${project.name} (copy)`,
+        product_type: project.productType,
+        form_data: { ...project.formData, projectName: `${project.formData.projectName || project.name} (copy)` },
+        selection: project.selection,
+        packet_options: project.packetOptions,
+      })
+      .select(PROJECT_SELECT)
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(`Failed to duplicate project: ${error.message}`)
+    }
+
+    return this.mapDatabaseToProject(data)
+  }
+
+  /**
+   * Delete a project, its packet history and the stored packet files
+   */
+  async deleteProject(project: Project): Promise<void> {
+    const { error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', project.id)
+
+    if (error) {
+      throw error
+    }
+
+    const paths = project.packets.map(packet => packet.storagePath).filter((path): path is string => !!path)
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(BUCKET_NAME).remove(paths)
+      if (removeError) {
+        console.error('Error deleting packet files from storage:', removeError)
+      }
+    }
+  }
+
+  /**
+   * Store a generated packet and record it as the next revision of the project
+   */
+  async recordRevision(projectId: string, input: PacketRevisionInput): Promise<PacketRecord> {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      throw new Error('You must be logged in to save packet revisions')
+    }
+
+    const storagePath = `${user.id}/${projectId}/rev-${input.revision}-${Date.now()}.pdf`
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET_NAME)
+      .upload(storagePath, new Blob([input.bytes as BlobPart], { type: 'application/pdf' }), {
+        contentType: 'application/pdf',
+        upsert: false,
+      })
+
+    if (uploadError) {
+      console.error('Storage upload error:', uploadError)
+      throw new Error(`Failed to store packet: ${uploadError.message}`)
+    }
+
+    const { data, error } = await supabase
+      .from('packets')
+      .insert({
+        project_id: projectId,
+        revision: input.revision,
+        filename: input.filename,
+        size: input.bytes.byteLength,
+        engine: input.engine,
+        documents: input.documents,
+        change_summary: input.changeSummary,
+        storage_path: storagePath,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      await supabase.storage
+        .from(BUCKET_NAME)
+        .remove([storagePath])
+        .catch(console.error)
+
+      throw new Error(
+        error.code === '23505'
+          ? `Rev ${input.revision} was already recorded for this project. Reopen it from My Projects and generate again.`
+          : `Failed to record packet: ${error.message}`
+      )
+    }
+
+    return this.mapDatabaseToPacket(data)
+  }
+
+  /**
+   * Short-lived download link for a stored packet revision
+   */
+  async getPacketDownloadUrl(packet: PacketRecord): Promise<string> {
+    if (!packet.storagePath) {
+      throw new Error(`Rev ${packet.revision} was not stored`)
+    }
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .createSignedUrl(packet.storagePath, 60, { download: packet.filename })
+
+    if (error || !data) {
+      console.error('Error creating packet download link:', error)
+      throw new Error('Failed to create download link')
+    }
+
+    return data.signedUrl
+  }
+
+  /**
+   * Rebuild the wizard selection from a saved project. Documents deleted
+   * since the project was saved are dropped and counted in `missing`.
+   */
+  async restoreSelection(project: Project): Promise<{ selectedDocuments: SelectedDocument[]; missing: number }> {
+    if (!project.productType || project.selection.length === 0) {
+      return { selectedDocuments: [], missing: 0 }
+    }
+
+    const documents = await documentService.getDocumentsByProductType(project.productType)
+    const byId = new Map(documents.map(doc => [doc.id, doc]))
+
+    const selectedDocuments = project.selection
+      .filter(item => byId.has(item.documentId))
+      .sort((a, b) => a.order - b.order)
+      .map((item, index) => ({
+        id: item.documentId,
+        document: byId.get(item.documentId)!,
+        selected: item.selected,
+        order: index,
+        pinnedVersion: item.pinnedVersion,
+        pageRange: item.pageRange,
+        removalReason: item.removalReason,
+      }))
+
+    return { selectedDocuments, missing: project.selection.length - selectedDocuments.length }
+  }
+
+  private toSelection(selectedDocuments: SelectedDocument[]): ProjectSelectionItem[] {
+    return selectedDocuments.map(doc => ({
+      documentId: doc.document.id,
+      order: doc.order,
+      selected: doc.selected,
+      ...(doc.pinnedVersion ? { pinnedVersion: doc.pinnedVersion } : {}),
+      ...(doc.pageRange ? { pageRange: doc.pageRange } : {}),
+      ...(doc.removalReason ? { removalReason: doc.removalReason } : {}),
+    }))
+  }
+
+  /**
+   * Map database project to frontend Project type
+   */
+  private mapDatabaseToProject(dbProject: any): Project {
+    return {
+      id: dbProject.id,
+      name: dbProject.name,
+      productType: dbProject.product_type,
+      formData: dbProject.form_data || {},
+      selection: dbProject.selection || [],
+      packetOptions: dbProject.packet_options,
+      createdAt: dbProject.created_at,
+      updatedAt: dbProject.updated_at,
+      packets: (dbProject.packets || []).map((packet: any) => this.mapDatabaseToPacket(packet)),
+    }
+  }
+
+  /**
+   * Map database packet to frontend PacketRecord type
+   */
+  private mapDatabaseToPacket(dbPacket: any): PacketRecord {
+    return {
+      id: dbPacket.id,
+      projectId: dbPacket.project_id,
+      revision: dbPacket.revision ?? 0,
+      filename: dbPacket.filename,
+      size: dbPacket.size || 0,
+      engine: dbPacket.engine,
+      documents: dbPacket.documents || [],
+      changeSummary: dbPacket.change_summary || '',
+      storagePath: dbPacket.storage_path,
+      generatedAt: dbPacket.generated_at,
+    }
+  }
+}
+
+export const projectService = new ProjectService()
@@ -0,0 +1,108 @@
+import type { SubmittalCategory } from '@/types'
+import { supabase } from '@/lib/supabaseClient'
+import { authService } from './authService'
+
+export type SubmittalCategoryInput = Omit<SubmittalCategory, 'id'>
+
+class SubmittalCategoryService {
+  /**
+   * Get all submittal categories in checklist order
+   */
+  async getAllCategories(): Promise<SubmittalCategory[]> {
+    const { data, error } = await supabase
+      .from('submittal_categories')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('label', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching submittal categories:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToCategory)
+  }
+
+  /**
+   * Create a new submittal category
+   */
+  async createCategory(input: SubmittalCategoryInput): Promise<SubmittalCategory> {
+    await authService.requirePermission('manageLibrary')
+    if (!input.label.trim()) {
+      throw new Error('Category label is required')
+    }
+
+    const { data, error } = await supabase
+      .from('submittal_categories')
+      .insert({
+        label: input.label.trim(),
+        group_label: input.group.trim(),
+        sort_order: input.sortOrder,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(
+        error.code === '23505'
+          ? 'A category with this label already exists in the group'
+          : `Failed to save category: ${error.message}`
+      )
+    }
+
+    return this.mapDatabaseToCategory(data)
+  }
+
+  /**
+   * Update a submittal category
+   */
+  async updateCategory(id: string, updates: Partial<SubmittalCategoryInput>): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    }
+
+    if (updates.label !== undefined) updateData.label = updates.label.trim()
+    if (updates.group !== undefined) updateData.group_label = updates.group.trim()
+    if (updates.sortOrder !== undefined) updateData.sort_order = updates.sortOrder
+
+    const { error } = await supabase
+      .from('submittal_categories')
+      .update(updateData)
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Delete a submittal category (its document tags are removed with it)
+   */
+  async deleteCategory(id: string): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const { error } = await supabase
+      .from('submittal_categories')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Map database category to frontend SubmittalCategory type
+   */
+  private mapDatabaseToCategory(dbCategory: any): SubmittalCategory {
+    return {
+      id: dbCategory.id,
+      label: dbCategory.label,
+      group: dbCategory.group_label || '',
+      sortOrder: dbCategory.sort_order ?? 0,
+    }
+  }
+}
+
+export const submittalCategoryService = new SubmittalCategoryService()
@@ -0,0 +1,159 @@
+import type { PacketTemplate, ProductType } from '@/types'
+import { supabase } from '@/lib/supabaseClient'
+import { documentService } from '@/services/documentService'
+import { withRequiredDocuments } from '@/utils/templates'
+import { authService } from '@/services/authService'
+
+export type PacketTemplateInput = Omit<PacketTemplate, 'id' | 'createdAt' | 'updatedAt'>
+
+const NOT_OWN_TEMPLATE_MESSAGE = 'This template no longer exists or was saved by someone else; sales reps can only change their own templates'
+
+class TemplateService {
+  /**
+   * Get packet templates by name, optionally only those for one product
+   */
+  async getTemplates(productType?: ProductType): Promise<PacketTemplate[]> {
+    let query = supabase
+      .from('packet_templates')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (productType) {
+      query = query.eq('product_type', productType)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching packet templates:', error)
+      throw error
+    }
+
+    return (data || []).map(this.mapDatabaseToTemplate)
+  }
+
+  /**
+   * Save a new template. The product's required documents are added if missing.
+   */
+  async createTemplate(input: PacketTemplateInput): Promise<PacketTemplate> {
+    await authService.requirePermission('manageTemplates')
+    if (!input.name.trim()) {
+      throw new Error('Template name is required')
+    }
+
+    const documentIds = await this.enforceRequiredDocuments(input.productType, input.documentIds)
+    if (documentIds.length === 0) {
+      throw new Error('A template needs at least one document')
+    }
+
+    const { data, error } = await supabase
+      .from('packet_templates')
+      .insert({
+        name: input.name.trim(),
+        description: input.description.trim(),
+        product_type: input.productType,
+        document_ids: documentIds,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      throw new Error(
+        error.code === '23505'
+          ? `A template named "${input.name.trim()}" already exists for this product`
+          : `Failed to save template: ${error.message}`
+      )
+    }
+
+    return this.mapDatabaseToTemplate(data)
+  }
+
+  /**
+   * Update a template's name, description or documents
+   */
+  async updateTemplate(template: PacketTemplate, updates: Partial<Omit<PacketTemplateInput, 'productType'>>): Promise<void> {
+    await authService.requirePermission('manageTemplates')
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    }
+
+    if (updates.name !== undefined) {
+      if (!updates.name.trim()) {
+        throw new Error('Template name is required')
+      }
+      updateData.name = updates.name.trim()
+    }
+    if (updates.description !== undefined) updateData.description = updates.description.trim()
+    if (updates.documentIds !== undefined) {
+      const documentIds = await this.enforceRequiredDocuments(template.productType, updates.documentIds)
+      if (documentIds.length === 0) {
+        throw new Error('A template needs at least one document')
+      }
+      updateData.document_ids = documentIds
+    }
+
+    const { data, error } = await supabase
+      .from('packet_templates')
+      .update(updateData)
+      .eq('id', template.id)
+      .select('id')
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A template named "${updates.name?.trim()}" already exists for this product`)
+      }
+      throw error
+    }
+
+    // Row level security skips rows the user may not change instead of failing
+    if (!data || data.length === 0) {
+      throw new Error(NOT_OWN_TEMPLATE_MESSAGE)
+    }
+  }
+
+  /**
+   * Delete a template
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    await authService.requirePermission('manageTemplates')
+    const { data, error } = await supabase
+      .from('packet_templates')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(NOT_OWN_TEMPLATE_MESSAGE)
+    }
+  }
+
+  /**
+   * Required documents belong in every packet, so templates always carry them
+   */
+  private async enforceRequiredDocuments(productType: ProductType, documentIds: string[]): Promise<string[]> {
+    const productDocuments = await documentService.getDocumentsByProductType(productType)
+    return withRequiredDocuments(documentIds, productDocuments)
+  }
+
+  /**
+   * Map database template to frontend PacketTemplate type
+   */
+  private mapDatabaseToTemplate(dbTemplate: any): PacketTemplate {
+    return {
+      id: dbTemplate.id,
+      name: dbTemplate.name,
+      description: dbTemplate.description || '',
+      productType: dbTemplate.product_type,
+      documentIds: dbTemplate.document_ids || [],
+      createdAt: dbTemplate.created_at,
+      updatedAt: dbTemplate.updated_at,
+    }
+  }
+}
+
+export const templateService = new TemplateService()
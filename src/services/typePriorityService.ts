@@ -0,0 +1,49 @@
+import { supabase } from '@/lib/supabaseClient'
+import { getDefaultTypePriorities, type TypePriorities } from '@/utils/autoArrange'
+import { authService } from './authService'
+
+class TypePriorityService {
+  /**
+   * Get the auto-arrange priority of every document type, stored priorities
+   * taking precedence over the built-in defaults
+   */
+  async getPriorities(): Promise<TypePriorities> {
+    const { data, error } = await supabase
+      .from('document_type_priorities')
+      .select('*')
+
+    if (error) {
+      console.error('Error fetching document type priorities:', error)
+      throw error
+    }
+
+    const priorities = getDefaultTypePriorities()
+    for (const row of data || []) {
+      priorities[row.document_type] = row.priority
+    }
+    return priorities
+  }
+
+  /**
+   * Save priorities for the given document types
+   */
+  async savePriorities(priorities: TypePriorities): Promise<void> {
+    await authService.requirePermission('manageLibrary')
+    const rows = Object.entries(priorities).map(([documentType, priority]) => ({
+      document_type: documentType,
+      priority,
+      updated_at: new Date().toISOString(),
+    }))
+
+    const { error } = await supabase
+      .from('document_type_priorities')
+      .upsert(rows, { onConflict: 'document_type' })
+
+    if (error) {
+      console.error('Database upsert error:', error)
+      throw new Error(`Failed to save priorities: ${error.message}`)
+    }
+  }
+}
+
+export const typePriorityService = new TypePriorityService()
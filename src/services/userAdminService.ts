@@ -0,0 +1,54 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabaseClient'
+import type { ManagedUser, UserRole } from '@/types'
+
+// Edge function holding the service key; it only acts for owners
+const FUNCTION_NAME = 'manage-users'
+
+class UserAdminService {
+  async listUsers(): Promise<ManagedUser[]> {
+    const { users } = await this.invoke<{ users: ManagedUser[] }>({ action: 'list' })
+    return users
+  }
+
+  /**
+   * Email an invitation; the account gets the role once created
+   */
+  async inviteUser(email: string, role: UserRole): Promise<string> {
+    const { message } = await this.invoke<{ message: string }>({ action: 'invite', email, role })
+    return message
+  }
+
+  async sendPasswordReset(userId: string): Promise<string> {
+    const { message } = await this.invoke<{ message: string }>({ action: 'resetPassword', userId })
+    return message
+  }
+
+  /**
+   * Block or restore sign-in without deleting the account or its projects
+   */
+  async setDeactivated(userId: string, deactivated: boolean): Promise<string> {
+    const { message } = await this.invoke<{ message: string }>({
+      action: deactivated ? 'deactivate' : 'reactivate',
+      userId,
+    })
+    return message
+  }
+
+  private async invoke<T>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body })
+
+    if (error) {
+      // The function answers errors with { error: message }
+      const details = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null
+      console.error('Error managing users:', error)
+      throw new Error(details?.error || `User management failed: ${error.message}`)
+    }
+
+    return data as T
+  }
+}
+
+export const userAdminService = new UserAdminService()
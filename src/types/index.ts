@@ -1,5 +1,16 @@
-// Product types
-export type ProductType = 'structural-floor' | 'underlayment';
+// Product types - slug of a row in the products catalog (e.g. 'structural-floor')
+export type ProductType = string;
+
+export interface Product {
+  id: ProductType;
+  name: string;
+  description: string;
+  imageUrl: string;
+  availableSizes: string[];
+  defaultDocumentIds: string[]; // Pre-selected when building a packet for this product
+  sortOrder: number;
+  active: boolean;
+}
 
 // Form data types
 export interface ProjectFormData {
@@ -17,46 +28,84 @@ export interface ProjectFormData {
     forRecord: boolean;
     forInformationOnly: boolean;
   };
-  submittalType: {
-    tds: boolean;
-    threePartSpecs: boolean;
-    testReportIccEsr5194: boolean;
-    testReportIccEsr5192: boolean;
-    testReportIccEsl1645: boolean;
-    fireAssembly: boolean;
-    fireAssembly01: boolean;
-    fireAssembly02: boolean;
-    fireAssembly03: boolean;
-    fireAssembly04: boolean;
-    fireAssembly05: boolean;
-    fireAssembly06: boolean;
-    fireAssembly07: boolean;
-    fireAssembly08: boolean;
-    fireAssembly09: boolean;
-    msds: boolean;
-    leedGuide: boolean;
-    installationGuide: boolean;
-    warranty: boolean;
-    samples: boolean;
-    other: boolean;
-    otherText?: string;
-  };
+  submittalChecklist?: SubmittalChecklistItem[]; // Computed from the selected documents' tags
   productSize: string;
 }
 
+// Submittal categories (cover-page checklist entries documents are tagged with)
+export interface SubmittalCategory {
+  id: string;
+  label: string;
+  group: string; // Shared heading such as 'Fire Assembly'; empty for top-level entries
+  sortOrder: number;
+}
+
+export interface SubmittalChecklistItem {
+  categoryId: string;
+  label: string;
+  group: string;
+  checked: boolean;
+}
+
 // Document types
 export interface Document {
   id: string;
   name: string;
   description: string;
   filename: string;
-  url: string; // Legacy support - empty for uploaded files
+  storagePath: string; // Path of the current file in the private documents bucket
   size: number;
-  type: string;
+  docType: DocumentType; // What the file is (TDS, ESR, ...), independent of the product
   required: boolean;
   products: string[];
-  productType: ProductType; // Single category: 'structural-floor' or 'underlayment'
-  fileData?: string; // Base64 encoded file data (optional, used for worker communication)
+  productType: ProductType; // Single catalog product, e.g. 'structural-floor'
+  submittalCategoryIds: string[]; // Submittal categories this document satisfies
+  currentVersion: number; // Version the document resolves to when not pinned
+  effectiveDate?: string | null; // Issue date of the report, 'YYYY-MM-DD'
+  expirationDate?: string | null; // Evaluation reports must not be submitted after this date
+  textIndexedAt?: string | null; // When the file's text was extracted for search; null if not yet
+  contentHash?: string | null; // SHA-256 of the current file; null until fingerprinted
+  updatedAt?: string;
+}
+
+// A page of a document whose extracted text matches a search
+export interface DocumentTextMatch {
+  documentId: string;
+  pageNumber: number;
+  snippet: string; // Matched terms are wrapped in ⟦ ⟧
+  rank: number;
+}
+
+export type DocumentExpiryStatus = 'none' | 'valid' | 'expiring' | 'expired';
+
+// A stored file of a document; every upload of a new file adds one
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  versionNumber: number;
+  filename: string;
+  storagePath: string;
+  size: number;
+  notes: string;
+  createdAt: string;
+}
+
+// Admin-defined relationship between two library documents
+export type DocumentRuleType = 'requires' | 'recommends' | 'conflicts';
+
+export interface DocumentRule {
+  id: string;
+  documentId: string; // The rule applies when this document is selected
+  relatedDocumentId: string;
+  type: DocumentRuleType;
+  note: string;
+}
+
+// A rule that is not satisfied by the current selection
+export interface DocumentRuleFinding {
+  rule: DocumentRule;
+  document: Document;
+  relatedDocument: Document;
 }
 
 export interface SelectedDocument {
@@ -64,6 +113,152 @@ export interface SelectedDocument {
   document: Document;
   selected: boolean;
   order: number;
+  pinnedVersion?: number; // Use this version instead of the current one
+  pageRange?: string; // Pages to include, e.g. "1-3, 7"; empty for the whole document
+  removalReason?: string; // Why a required document was left out of the packet
+}
+
+// A saved, named document selection for a product, applied in one click
+export interface PacketTemplate {
+  id: string;
+  name: string;
+  description: string;
+  productType: ProductType;
+  documentIds: string[]; // In packet order; always includes the product's required documents
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Packet generation
+// 'auto' tries the Cloudflare worker first and falls back to the in-browser engine
+export type PacketEngine = 'auto' | 'worker' | 'local';
+
+export type PageNumbering = 'none' | 'pageOfTotal' | 'bates';
+
+// Running header/footer stamped on every page of the packet
+export interface PageStampOptions {
+  enabled: boolean;
+  showProjectName: boolean;
+  showProjectNumber: boolean;
+  showStatus: boolean;
+  numbering: PageNumbering;
+  batesPrefix: string;
+  batesStart: number;
+}
+
+// Navigation features of the generated PDF, honoured by both engines
+export interface PacketLayoutOptions {
+  includeTableOfContents: boolean;
+  includeBookmarks: boolean;
+  includeDividers: boolean;
+  stamp: PageStampOptions;
+}
+
+export interface PacketOptions extends PacketLayoutOptions {
+  engine: PacketEngine;
+}
+
+// Saved projects
+export interface ProjectSelectionItem {
+  documentId: string;
+  order: number;
+  selected: boolean;
+  pinnedVersion?: number;
+  pageRange?: string;
+  removalReason?: string;
+}
+
+// A document as it was when a packet was generated
+export interface PacketDocumentSnapshot {
+  id: string;
+  name: string;
+  version?: number; // Document version included in the packet
+  pageRange?: string; // Pages included when not the whole document
+  updatedAt?: string;
+}
+
+export interface PacketRecord {
+  id: string;
+  projectId: string;
+  revision: number; // Rev 0 is the initial submittal
+  filename: string;
+  size: number;
+  engine: PacketEngine | null;
+  documents: PacketDocumentSnapshot[]; // In packet order
+  changeSummary: string;
+  storagePath: string | null; // Stored PDF in the packets bucket
+  generatedAt: string;
+}
+
+export interface RevisionHistoryEntry {
+  revision: number;
+  date: string;
+  summary: string;
+}
+
+// Revision details printed on the cover page
+export interface PacketRevisionInfo {
+  number: number;
+  history: RevisionHistoryEntry[]; // Oldest first, including this revision
+}
+
+export interface RevisionDiff {
+  added: PacketDocumentSnapshot[];
+  removed: PacketDocumentSnapshot[];
+  reordered: PacketDocumentSnapshot[];
+  updated: PacketDocumentSnapshot[];
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  productType: ProductType | null;
+  formData: Partial<ProjectFormData>;
+  selection: ProjectSelectionItem[];
+  packetOptions: PacketOptions | null;
+  createdAt: string;
+  updatedAt: string;
+  packets: PacketRecord[]; // Newest first
+}
+
+// Users and roles
+export type UserRole = 'owner' | 'library_editor' | 'sales_rep' | 'read_only';
+
+export interface UserProfile {
+  id: string; // auth user id
+  email: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+// An account as shown on the user administration screen
+export interface ManagedUser extends UserProfile {
+  lastSignInAt: string | null; // null until an invited user accepts
+  invitedAt: string | null;
+  deactivated: boolean;
+}
+
+// Audit log
+export type AuditAction =
+  | 'document.created'
+  | 'document.updated'
+  | 'document.deleted'
+  | 'document.version_added'
+  | 'document.category_added'
+  | 'document.category_removed'
+  | 'packet.generated';
+
+export interface AuditEvent {
+  id: string;
+  occurredAt: string;
+  actorId: string | null; // null for packets generated without signing in
+  actorEmail: string;
+  action: AuditAction;
+  targetType: 'document' | 'packet';
+  targetId: string | null; // Document id, or the project id for packets
+  targetName: string; // Name at the time of the event
+  before: Record<string, unknown> | null; // Database row before the change
+  after: Record<string, unknown> | null; // Row after the change, or the packet details
 }
 
 // App state
@@ -71,6 +266,8 @@ export interface AppState {
   currentStep: number;
   formData: Partial<ProjectFormData>;
   selectedDocuments: SelectedDocument[];
+  packetOptions: PacketOptions;
+  projectId?: string; // Saved project the wizard is editing, if any
   isGenerating: boolean;
   darkMode: boolean;
 }
@@ -0,0 +1,80 @@
+import type { AuditAction, AuditEvent } from '@/types'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'document.created': 'Document uploaded',
+  'document.updated': 'Document edited',
+  'document.deleted': 'Document deleted',
+  'document.version_added': 'Version uploaded',
+  'document.category_added': 'Category tagged',
+  'document.category_removed': 'Category untagged',
+  'packet.generated': 'Packet generated',
+}
+
+// Columns the database keeps up to date; not worth listing as changes
+const BOOKKEEPING_FIELDS = new Set(['updated_at', 'text_indexed_at', 'content_hash'])
+
+/**
+ * Names of the fields an update changed, e.g. ['name', 'expiration_date']
+ */
+export function getChangedFields(event: AuditEvent): string[] {
+  if (!event.before || !event.after) return []
+  const keys = new Set([...Object.keys(event.before), ...Object.keys(event.after)])
+  return [...keys].filter(key =>
+    !BOOKKEEPING_FIELDS.has(key) && JSON.stringify(event.before![key]) !== JSON.stringify(event.after![key])
+  )
+}
+
+/**
+ * One-line summary of what an event did, for the log and the CSV export
+ */
+export function summarizeAuditEvent(event: AuditEvent): string {
+  const after = event.after || {}
+  const before = event.before || {}
+
+  switch (event.action) {
+    case 'document.updated':
+      return `Changed ${getChangedFields(event).join(', ') || 'nothing visible'}`
+    case 'document.version_added':
+      return `v${after.version_number} · ${after.filename}`
+    case 'document.category_added':
+      return String(after.label ?? '')
+    case 'document.category_removed':
+      return String(before.label ?? '')
+    case 'document.created':
+    case 'document.deleted':
+      return String((after.filename ?? before.filename) || '')
+    case 'packet.generated': {
+      const documents = Array.isArray(after.documents) ? after.documents as Array<{ name: string; version?: number }> : []
+      const revision = after.revision !== undefined ? ` Rev ${after.revision}` : ''
+      const listed = documents.map(doc => (doc.version ? `${doc.name} (v${doc.version})` : doc.name)).join('; ')
+      return `To ${after.submittedTo || 'unknown'}${revision} · ${documents.length} document(s): ${listed}`
+    }
+  }
+}
+
+function csvCell(value: unknown): string {
+  const raw = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value)
+  // Spreadsheets run cells starting with these as formulas; names and emails come from users
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV of the events, including the full before/after records as JSON
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ['Time', 'User', 'Action', 'Target Type', 'Target ID', 'Target Name', 'Summary', 'Before', 'After']
+  const rows = events.map(event => [
+    event.occurredAt,
+    event.actorEmail || 'Anonymous',
+    AUDIT_ACTION_LABELS[event.action] || event.action,
+    event.targetType,
+    event.targetId,
+    event.targetName,
+    summarizeAuditEvent(event),
+    event.before,
+    event.after,
+  ])
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n')
+}
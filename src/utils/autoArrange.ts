@@ -0,0 +1,52 @@
+import { documentTypeConfig } from '@/data/documents'
+import type { SelectedDocument } from '@/types'
+
+// Document type -> position when auto-arranging; lower comes first
+export type TypePriorities = Record<string, number>
+
+const UNKNOWN_TYPE_PRIORITY = 99
+
+/**
+ * The priorities built into the app, used for types without a stored priority
+ */
+export function getDefaultTypePriorities(): TypePriorities {
+  return Object.fromEntries(
+    Object.entries(documentTypeConfig).map(([type, config]) => [type, config.priority])
+  )
+}
+
+/**
+ * Priority of a document type. Types are matched case-insensitively so a
+ * priority saved as e.g. 'Warranty' still applies to 'warranty'.
+ */
+export function getTypePriority(type: string, priorities: TypePriorities): number {
+  if (priorities[type] !== undefined) return priorities[type]
+  const key = Object.keys(priorities).find(candidate => candidate.toLowerCase() === type.toLowerCase())
+  return key ? priorities[key] : UNKNOWN_TYPE_PRIORITY
+}
+
+// Numeric-aware, so "Fire Assembly 2" sorts before "Fire Assembly 10"
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+/**
+ * Order the selected documents by type priority, then by name. Unselected
+ * entries keep their place after the selected ones.
+ */
+export function autoArrange(selectedDocuments: SelectedDocument[], priorities: TypePriorities): SelectedDocument[] {
+  const arranged = selectedDocuments
+    .filter(doc => doc.selected)
+    .sort((a, b) =>
+      getTypePriority(a.document.docType, priorities) - getTypePriority(b.document.docType, priorities) ||
+      nameCollator.compare(a.document.name, b.document.name)
+    )
+    .map((doc, index) => ({ ...doc, order: index }))
+
+  return [...arranged, ...selectedDocuments.filter(doc => !doc.selected)]
+}
+
+/**
+ * Sort document types for display, e.g. in the type filter
+ */
+export function sortDocumentTypes(types: string[], priorities: TypePriorities): string[] {
+  return [...types].sort((a, b) => getTypePriority(a, priorities) - getTypePriority(b, priorities))
+}
@@ -0,0 +1,9 @@
+/**
+ * Hex SHA-256 of a file's bytes, used to recognise the same PDF under
+ * different filenames
+ */
+export async function sha256Hex(data: ArrayBuffer | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data
+  const digest = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,78 @@
+import type { Document, DocumentExpiryStatus, SelectedDocument } from '@/types'
+
+// Documents expiring within this many days are flagged as expiring soon
+export const EXPIRY_WARNING_DAYS = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Parse a date-only value ('2026-03-01') as local midnight. new Date() would
+ * read it as UTC and show the previous day west of Greenwich.
+ */
+function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * Whole days from today until the document expires; negative once expired,
+ * null when the document has no expiration date
+ */
+export function daysUntilExpiry(doc: Pick<Document, 'expirationDate'>, today: Date = new Date()): number | null {
+  if (!doc.expirationDate) return null
+  return Math.round((parseDateOnly(doc.expirationDate).getTime() - startOfDay(today).getTime()) / DAY_MS)
+}
+
+/**
+ * A document is expired from the day after its expiration date
+ */
+export function getExpiryStatus(doc: Pick<Document, 'expirationDate'>, today: Date = new Date()): DocumentExpiryStatus {
+  const days = daysUntilExpiry(doc, today)
+  if (days === null) return 'none'
+  if (days < 0) return 'expired'
+  if (days <= EXPIRY_WARNING_DAYS) return 'expiring'
+  return 'valid'
+}
+
+/**
+ * Short status text, e.g. "Expired 12 days ago" or "Expires in 30 days"
+ */
+export function describeExpiry(doc: Pick<Document, 'expirationDate'>, today: Date = new Date()): string {
+  const days = daysUntilExpiry(doc, today)
+  if (days === null) return 'No expiration date'
+  if (days < -1) return `Expired ${-days} days ago`
+  if (days === -1) return 'Expired yesterday'
+  if (days === 0) return 'Expires today'
+  if (days === 1) return 'Expires tomorrow'
+  return `Expires in ${days} days`
+}
+
+export function formatDateOnly(value: string): string {
+  return parseDateOnly(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Selected documents that are expired or expiring soon, in packet order
+ */
+export function getSelectedExpiryIssues(
+  selectedDocuments: SelectedDocument[],
+  today: Date = new Date()
+): { expired: Document[]; expiring: Document[] } {
+  const documents = selectedDocuments
+    .filter(doc => doc.selected)
+    .sort((a, b) => a.order - b.order)
+    .map(doc => doc.document)
+
+  return {
+    expired: documents.filter(doc => getExpiryStatus(doc, today) === 'expired'),
+    expiring: documents.filter(doc => getExpiryStatus(doc, today) === 'expiring'),
+  }
+}
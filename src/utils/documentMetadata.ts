@@ -0,0 +1,119 @@
+import { documentTypeConfig } from '@/data/documents'
+import type { DocumentType } from '@/types'
+
+/**
+ * What is known about a PDF before it is uploaded: its filename, the title in
+ * its metadata and the text of its first page
+ */
+export interface PdfSummary {
+  filename: string
+  title?: string
+  firstPageText?: string
+}
+
+export interface SuggestedMetadata {
+  name: string
+  description: string
+  docType: DocumentType
+  reportNumbers: string[] // e.g. ['ESR-5194', 'UL H501']
+}
+
+// Checked in order; the first match wins, so specific patterns come first
+const TYPE_PATTERNS: Array<[DocumentType, RegExp]> = [
+  ['MSDS', /\b(m?sds|safety data sheet)\b/i],
+  ['ESR', /\b(esr-?\d+|evaluation report|icc-es report)\b/i],
+  ['Acoustic', /\b(esl-?\d+|acoustic(al)?|sound transmission|impact insulation|stc|iic)\b/i],
+  ['warranty', /\bwarrant(y|ies)\b/i],
+  ['LEED', /\bleed\b/i],
+  ['Installation', /\b(installation|install(ing)? guide|fastening schedule)\b/i],
+  ['PartSpec', /\b(3-part|three-part|part 1\s*-?\s*general|section \d{2} ?\d{2} ?\d{2})\b/i],
+  ['TDS', /\b(tds|technical data|product data sheet)\b/i],
+]
+
+// Report and listing numbers building officials look for
+const REPORT_NUMBER_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => string]> = [
+  [/\b(ESR|ESL|ER|PER|DER)[- ]?(\d{3,5})\b/gi, match => `${match[1].toUpperCase()}-${match[2]}`],
+  [/\bUL\s+(?:Design\s+(?:No\.?\s*)?)?([A-Z]\d{3})\b/g, match => `UL ${match[1]}`],
+  [/\bCCMC\s+(\d{5}-[A-Z])\b/gi, match => `CCMC ${match[1].toUpperCase()}`],
+]
+
+// Titles that authoring tools fill in and that say nothing about the document
+const MEANINGLESS_TITLE = /^(untitled|document\d*|microsoft word|print|page \d+|\s*)$/i
+
+/**
+ * Guess the document type from any text known about the file
+ */
+export function detectDocumentType(...texts: Array<string | undefined>): DocumentType | null {
+  const text = texts.filter(Boolean).join('\n').replace(/[_]+/g, ' ')
+  const match = TYPE_PATTERNS.find(([, pattern]) => pattern.test(text))
+  return match ? match[0] : null
+}
+
+/**
+ * Report and listing numbers mentioned in the text, in order of appearance
+ */
+export function parseReportNumbers(...texts: Array<string | undefined>): string[] {
+  const text = texts.filter(Boolean).join('\n')
+  const found: Array<{ index: number; value: string }> = []
+
+  for (const [pattern, format] of REPORT_NUMBER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      found.push({ index: match.index ?? 0, value: format(match) })
+    }
+  }
+
+  return [...new Set(found.sort((a, b) => a.index - b.index).map(item => item.value))]
+}
+
+/**
+ * A cleaned-up PDF title, or null when the metadata title is missing or generic
+ */
+export function cleanPdfTitle(title: string | undefined): string | null {
+  const cleaned = (title || '')
+    .replace(/^Microsoft (Word|PowerPoint|Excel) - /i, '')
+    .replace(/\.(docx?|pptx?|xlsx?|indd|pdf)$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return cleaned.length > 2 && !MEANINGLESS_TITLE.test(cleaned) ? cleaned : null
+}
+
+/**
+ * Turn a filename into a readable name, e.g. "maxterra_tds-2024.pdf" -> "Maxterra Tds 2024"
+ */
+export function nameFromFilename(filename: string): string {
+  return filename
+    .replace(/\.pdf$/i, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b[a-z]/g, letter => letter.toUpperCase())
+}
+
+/**
+ * Suggest a name, description and type for a PDF. The name comes from the
+ * PDF's own title when it has a meaningful one, otherwise from the type and
+ * report number (so two evaluation reports get different names), and only
+ * then from the filename.
+ */
+export function suggestDocumentMetadata({ filename, title, firstPageText }: PdfSummary): SuggestedMetadata {
+  const cleanTitle = cleanPdfTitle(title)
+  const type = detectDocumentType(filename, cleanTitle || undefined, firstPageText) || 'TDS'
+  const reportNumbers = parseReportNumbers(filename, cleanTitle || undefined, firstPageText)
+  const typeLabel = documentTypeConfig[type]?.label || type
+
+  let name = cleanTitle
+  if (!name && reportNumbers.length > 0) {
+    name = `${typeLabel} ${reportNumbers[0]}`
+  }
+  if (!name) {
+    name = nameFromFilename(filename) || typeLabel
+  }
+
+  return {
+    name,
+    description: reportNumbers.length > 0 ? `${typeLabel} (${reportNumbers.join(', ')})` : typeLabel,
+    docType: type,
+    reportNumbers,
+  }
+}
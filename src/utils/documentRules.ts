@@ -0,0 +1,61 @@
+import type { Document, DocumentRule, DocumentRuleFinding, DocumentRuleType, SelectedDocument } from '@/types'
+
+export const DOCUMENT_RULE_LABELS: Record<DocumentRuleType, string> = {
+  requires: 'requires',
+  recommends: 'recommends',
+  conflicts: 'conflicts with',
+}
+
+export interface DocumentRuleEvaluation {
+  missingRequired: DocumentRuleFinding[] // A selected document requires one that is not selected
+  recommended: DocumentRuleFinding[] // A selected document recommends one that is not selected
+  conflicts: DocumentRuleFinding[] // Both documents of a conflict are selected
+}
+
+/**
+ * Check the selection against the rules. `documents` are the library
+ * documents the related documents are looked up in; rules pointing at other
+ * documents are skipped.
+ */
+export function evaluateDocumentRules(
+  rules: DocumentRule[],
+  selectedDocuments: SelectedDocument[],
+  documents: Document[]
+): DocumentRuleEvaluation {
+  const selectedIds = new Set(selectedDocuments.filter(doc => doc.selected).map(doc => doc.document.id))
+  const byId = new Map(documents.map(doc => [doc.id, doc]))
+  const evaluation: DocumentRuleEvaluation = { missingRequired: [], recommended: [], conflicts: [] }
+  const suggested = new Set<string>()
+
+  for (const rule of rules) {
+    const document = byId.get(rule.documentId)
+    const relatedDocument = byId.get(rule.relatedDocumentId)
+    if (!document || !relatedDocument || !selectedIds.has(rule.documentId)) continue
+
+    const finding = { rule, document, relatedDocument }
+    if (rule.type === 'conflicts') {
+      if (selectedIds.has(rule.relatedDocumentId)) evaluation.conflicts.push(finding)
+    } else if (!selectedIds.has(rule.relatedDocumentId)) {
+      if (rule.type === 'requires') {
+        evaluation.missingRequired.push(finding)
+      } else {
+        evaluation.recommended.push(finding)
+      }
+      suggested.add(`${rule.type}:${rule.relatedDocumentId}`)
+    }
+  }
+
+  // A document that is both required and recommended only needs to be suggested once
+  evaluation.recommended = evaluation.recommended.filter(
+    finding => !suggested.has(`requires:${finding.relatedDocument.id}`)
+  )
+
+  return evaluation
+}
+
+/**
+ * Whether the selection breaks a rule that should stop the packet going out
+ */
+export function hasBlockingRuleFindings(evaluation: DocumentRuleEvaluation): boolean {
+  return evaluation.missingRequired.length > 0 || evaluation.conflicts.length > 0
+}
@@ -0,0 +1,81 @@
+/**
+ * Page ranges are stored as the text the user typed, e.g. "1-3, 7". An empty
+ * range means the whole document.
+ */
+
+// Far beyond any real submittal document; stops "1-999999999" from expanding into a billion pages
+export const MAX_PAGE_NUMBER = 10000
+
+export interface ParsedPageRange {
+  pages: number[] | null // 1-based, ascending and unique; null for the whole document
+  error?: string
+}
+
+/**
+ * Parse a page range. With a page count, pages past the end are an error;
+ * without one, pages past MAX_PAGE_NUMBER are.
+ */
+export function parsePageRange(input: string | undefined, pageCount?: number): ParsedPageRange {
+  const text = (input || '').trim()
+  if (!text) return { pages: null }
+
+  const pages = new Set<number>()
+  for (const part of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)\s*(?:-\s*(\d+))?$/)
+    if (!match) {
+      return { pages: null, error: `"${part}" is not a page or range like 1-3` }
+    }
+
+    const start = Number(match[1])
+    const end = match[2] ? Number(match[2]) : start
+    if (start < 1 || end < start) {
+      return { pages: null, error: `"${part}" is not a valid range` }
+    }
+    if (pageCount !== undefined && end > pageCount) {
+      return { pages: null, error: `Page ${end} is past the last page (${pageCount})` }
+    }
+    if (pageCount === undefined && end > MAX_PAGE_NUMBER) {
+      return { pages: null, error: `Page ${end} is too high; pages go up to ${MAX_PAGE_NUMBER}` }
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page)
+    }
+  }
+
+  if (pages.size === 0) {
+    return { pages: null, error: 'Enter at least one page' }
+  }
+
+  return { pages: [...pages].sort((a, b) => a - b) }
+}
+
+/**
+ * Collapse page numbers into the shortest range text, e.g. [1, 2, 3, 7] -> "1-3, 7"
+ */
+export function formatPageRange(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b)
+  const parts: string[] = []
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++
+    parts.push(sorted[i] === start ? `${start}` : `${start}-${sorted[i]}`)
+  }
+
+  return parts.join(', ')
+}
+
+/**
+ * Zero-based page indices to copy from a document with `pageCount` pages
+ */
+export function resolvePageIndices(pageRange: string | undefined, pageCount: number): number[] {
+  const { pages, error } = parsePageRange(pageRange, pageCount)
+  if (error) {
+    throw new Error(error)
+  }
+
+  return pages
+    ? pages.map(page => page - 1)
+    : Array.from({ length: pageCount }, (_, index) => index)
+}
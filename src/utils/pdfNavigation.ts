@@ -0,0 +1,86 @@
+import { PDFHexString, PDFName, type PDFDocument, type PDFPage, type PDFRef } from 'pdf-lib'
+
+export interface OutlineEntry {
+  title: string
+  page: PDFPage
+  children?: OutlineEntry[]
+}
+
+interface LinkRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Make a rectangle on `page` jump to `target` when clicked
+ */
+export function addInternalLink(page: PDFPage, rect: LinkRect, target: PDFPage): void {
+  const context = page.doc.context
+  const link = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    Border: [0, 0, 0],
+    Dest: [target.ref, 'Fit'],
+  })
+  page.node.addAnnot(context.register(link))
+}
+
+/**
+ * Write the document outline (bookmarks panel) and open the PDF with it visible.
+ * pdf-lib has no high-level API for this, so the dictionaries are built by hand.
+ */
+export function addOutline(doc: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) return
+
+  const outlineRef = doc.context.nextRef()
+  const count = writeOutlineItems(doc, entries, outlineRef)
+
+  doc.context.assign(outlineRef, doc.context.obj({
+    Type: 'Outlines',
+    First: count.first,
+    Last: count.last,
+    Count: count.total,
+  }))
+  doc.catalog.set(PDFName.of('Outlines'), outlineRef)
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'))
+}
+
+/**
+ * Write one level of outline items (recursively) as siblings under `parentRef`.
+ * Returns the first/last sibling refs and the number of visible descendants.
+ */
+function writeOutlineItems(
+  doc: PDFDocument,
+  entries: OutlineEntry[],
+  parentRef: PDFRef
+): { first: PDFRef; last: PDFRef; total: number } {
+  const context = doc.context
+  const refs = entries.map(() => context.nextRef())
+  let total = entries.length
+
+  entries.forEach((entry, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: parentRef,
+      Dest: [entry.page.ref, 'Fit'],
+    })
+    if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1])
+    if (index < refs.length - 1) item.set(PDFName.of('Next'), refs[index + 1])
+
+    if (entry.children && entry.children.length > 0) {
+      const children = writeOutlineItems(doc, entry.children, refs[index])
+      item.set(PDFName.of('First'), children.first)
+      item.set(PDFName.of('Last'), children.last)
+      // Children are shown expanded, so they count towards the parent's total
+      item.set(PDFName.of('Count'), context.obj(children.total))
+      total += children.total
+    }
+
+    context.assign(refs[index], item)
+  })
+
+  return { first: refs[0], last: refs[refs.length - 1], total }
+}
@@ -0,0 +1,83 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+
+type Pdfjs = typeof import('pdfjs-dist')
+
+let pdfjsPromise: Promise<Pdfjs> | null = null
+
+/**
+ * Load pdf.js and its worker on first use so they stay out of the main bundle
+ */
+export function loadPdfjs(): Promise<Pdfjs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, { default: workerSrc }]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = workerSrc
+      return pdfjs
+    })
+  }
+  return pdfjsPromise
+}
+
+/**
+ * Open a PDF from a URL or from bytes. The caller must destroy() it when done.
+ */
+export async function openPdf(source: string | Uint8Array): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs()
+  return pdfjs.getDocument(typeof source === 'string' ? { url: source } : { data: source }).promise
+}
+
+/**
+ * Render one page (1-based) to a JPEG data URL that is `width` CSS pixels wide
+ */
+export async function renderPageToDataUrl(pdf: PDFDocumentProxy, pageNumber: number, width: number): Promise<string> {
+  const page = await pdf.getPage(pageNumber)
+  try {
+    const scale = (width / page.getViewport({ scale: 1 }).width) * (window.devicePixelRatio || 1)
+    const viewport = page.getViewport({ scale })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.floor(viewport.width)
+    canvas.height = Math.floor(viewport.height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas rendering is not supported')
+    }
+
+    await page.render({ canvasContext: context, viewport }).promise
+    return canvas.toDataURL('image/jpeg', 0.85)
+  } finally {
+    page.cleanup()
+  }
+}
+
+// Thumbnails are rendered one at a time so a long document list does not
+// download and parse every PDF at once
+const thumbnailCache = new Map<string, Promise<string>>()
+let thumbnailQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * First-page thumbnail of the PDF at `url`, cached for the session
+ */
+export function getFirstPageThumbnail(url: string, width: number): Promise<string> {
+  const key = `${url}@${width}`
+  const cached = thumbnailCache.get(key)
+  if (cached) return cached
+
+  const task = thumbnailQueue.then(async () => {
+    const pdf = await openPdf(url)
+    try {
+      return await renderPageToDataUrl(pdf, 1, width)
+    } finally {
+      await pdf.destroy()
+    }
+  })
+
+  thumbnailQueue = task.catch(() => undefined)
+  thumbnailCache.set(key, task)
+  // Let a failed thumbnail be retried next time
+  task.catch(() => thumbnailCache.delete(key))
+
+  return task
+}
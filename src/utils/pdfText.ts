@@ -0,0 +1,61 @@
+import { openPdf } from './pdfRender'
+import type { PdfSummary } from './documentMetadata'
+
+/**
+ * Extract the text of every page of a PDF, in page order. Scanned pages
+ * without a text layer come back as empty strings.
+ */
+export async function extractPageTexts(data: ArrayBuffer | Uint8Array): Promise<string[]> {
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const bytes = data instanceof Uint8Array ? data.slice() : new Uint8Array(data.slice(0))
+  const pdf = await openPdf(bytes)
+
+  try {
+    const pages: string[] = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+      pages.push(normalizeText(text))
+      page.cleanup()
+    }
+    return pages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * Read the title metadata and first-page text of a PDF, used to suggest its
+ * name and type before upload
+ */
+export async function summarizePdf(file: File): Promise<PdfSummary> {
+  const pdf = await openPdf(new Uint8Array(await file.arrayBuffer()))
+
+  try {
+    const { info } = await pdf.getMetadata()
+    const page = await pdf.getPage(1)
+    const content = await page.getTextContent()
+    page.cleanup()
+
+    return {
+      filename: file.name,
+      title: (info as { Title?: string } | undefined)?.Title,
+      firstPageText: normalizeText(
+        content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join('')
+      ),
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
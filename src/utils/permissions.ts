@@ -0,0 +1,46 @@
+import type { UserRole } from '@/types'
+
+// What a role allows; mirrored by the has_role() checks in the RLS policies
+export type Permission = 'manageLibrary' | 'manageTemplates' | 'manageRoles' | 'viewAuditLog'
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ['manageLibrary', 'manageTemplates', 'manageRoles', 'viewAuditLog'],
+  library_editor: ['manageLibrary', 'manageTemplates', 'viewAuditLog'],
+  sales_rep: ['manageTemplates'],
+  read_only: [],
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  library_editor: 'Library editor',
+  sales_rep: 'Sales rep',
+  read_only: 'Read-only',
+}
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: 'Everything, including assigning roles',
+  library_editor: 'Upload, edit and delete documents, products, categories and rules',
+  sales_rep: 'Build packets and manage packet templates',
+  read_only: 'View the library without changing it',
+}
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  manageLibrary: 'change the document library',
+  manageTemplates: 'manage packet templates',
+  manageRoles: 'assign user roles',
+  viewAuditLog: 'view the audit log',
+}
+
+/**
+ * Whether a role allows an action. Signed-out users (no role) can do none of them.
+ */
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Error message for an action the current role does not allow
+ */
+export function describeMissingPermission(permission: Permission): string {
+  return `You do not have permission to ${PERMISSION_DESCRIPTIONS[permission]}`
+}
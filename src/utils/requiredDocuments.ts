@@ -0,0 +1,49 @@
+import { generateId } from './index'
+import type { Document, SelectedDocument } from '@/types'
+
+/**
+ * Select every required document of the product. Required documents that
+ * were left out with a reason stay out; new ones are appended to the packet.
+ */
+export function includeRequiredDocuments(
+  selectedDocuments: SelectedDocument[],
+  productDocuments: Document[]
+): SelectedDocument[] {
+  const updated = selectedDocuments.map(doc =>
+    doc.document.required && !doc.selected && !doc.removalReason ? { ...doc, selected: true } : doc
+  )
+
+  const present = new Set(updated.map(doc => doc.document.id))
+  const added = productDocuments
+    .filter(doc => doc.required && !present.has(doc.id))
+    .map((document, index) => ({
+      id: generateId(),
+      document,
+      order: updated.length + index,
+      selected: true,
+    }))
+
+  return [...updated, ...added]
+}
+
+/**
+ * Required documents of the product that are neither selected nor left out
+ * with a reason
+ */
+export function getMissingRequiredDocuments(
+  selectedDocuments: SelectedDocument[],
+  productDocuments: Document[]
+): Document[] {
+  return productDocuments.filter(doc => {
+    if (!doc.required) return false
+    const entry = selectedDocuments.find(selected => selected.document.id === doc.id)
+    return !entry || (!entry.selected && !entry.removalReason?.trim())
+  })
+}
+
+/**
+ * Required documents that were left out, with the reason given
+ */
+export function getRequiredOverrides(selectedDocuments: SelectedDocument[]): SelectedDocument[] {
+  return selectedDocuments.filter(doc => doc.document.required && !doc.selected && !!doc.removalReason)
+}
@@ -0,0 +1,96 @@
+import type {
+  PacketDocumentSnapshot,
+  PacketRecord,
+  PacketRevisionInfo,
+  RevisionDiff,
+  SelectedDocument,
+} from '@/types'
+
+/**
+ * Snapshot the selected documents in packet order, as stored with each revision
+ */
+export function snapshotDocuments(selectedDocuments: SelectedDocument[]): PacketDocumentSnapshot[] {
+  return selectedDocuments
+    .filter(doc => doc.selected)
+    .sort((a, b) => a.order - b.order)
+    .map(doc => ({
+      id: doc.document.id,
+      name: doc.document.name,
+      version: doc.pinnedVersion || doc.document.currentVersion,
+      ...(doc.pageRange ? { pageRange: doc.pageRange } : {}),
+      updatedAt: doc.document.updatedAt,
+    }))
+}
+
+/**
+ * Compare two revisions' documents. A document counts as reordered when its
+ * position among the documents present in both revisions changed, and as
+ * updated when a different version or page range is included or, for
+ * snapshots without versions, when it was modified after the previous
+ * revision was generated.
+ */
+export function diffRevisions(previous: PacketDocumentSnapshot[], current: PacketDocumentSnapshot[]): RevisionDiff {
+  const previousIds = new Set(previous.map(doc => doc.id))
+  const currentIds = new Set(current.map(doc => doc.id))
+
+  const keptBefore = previous.filter(doc => currentIds.has(doc.id))
+  const keptNow = current.filter(doc => previousIds.has(doc.id))
+  const previousById = new Map(previous.map(doc => [doc.id, doc]))
+
+  return {
+    added: current.filter(doc => !previousIds.has(doc.id)),
+    removed: previous.filter(doc => !currentIds.has(doc.id)),
+    reordered: keptNow.filter((doc, index) => keptBefore[index].id !== doc.id),
+    updated: keptNow.filter(doc => {
+      const before = previousById.get(doc.id)
+      if ((before?.pageRange || '') !== (doc.pageRange || '')) {
+        return true
+      }
+      if (before?.version && doc.version) {
+        return doc.version !== before.version
+      }
+      return !!before?.updatedAt && !!doc.updatedAt && doc.updatedAt !== before.updatedAt
+    }),
+  }
+}
+
+export function hasRevisionChanges(diff: RevisionDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.reordered.length + diff.updated.length > 0
+}
+
+/**
+ * One-line change log entry, e.g. "2 added, 1 removed, reordered"
+ */
+export function summarizeRevisionDiff(diff: RevisionDiff | null): string {
+  if (!diff) return 'Initial submittal'
+  if (!hasRevisionChanges(diff)) return 'Resubmitted without document changes'
+
+  const parts: string[] = []
+  if (diff.added.length) parts.push(`${diff.added.length} added`)
+  if (diff.removed.length) parts.push(`${diff.removed.length} removed`)
+  if (diff.updated.length) parts.push(`${diff.updated.length} updated`)
+  if (diff.reordered.length) parts.push('reordered')
+  return parts.join(', ')
+}
+
+/**
+ * Work out the next revision of a project from its packet history (newest
+ * first): its number, the changes since the latest revision and the history
+ * table for the cover page.
+ */
+export function planNextRevision(
+  packets: PacketRecord[],
+  documents: PacketDocumentSnapshot[],
+  date: string = new Date().toISOString()
+): { revision: PacketRevisionInfo; changes: RevisionDiff | null } {
+  const latest = packets[0]
+  const changes = latest ? diffRevisions(latest.documents, documents) : null
+  const number = latest ? latest.revision + 1 : 0
+
+  const history = [...packets]
+    .reverse()
+    .map(packet => ({ revision: packet.revision, date: packet.generatedAt, summary: packet.changeSummary }))
+  history.push({ revision: number, date, summary: summarizeRevisionDiff(changes) })
+
+  return { revision: { number, history }, changes }
+}
@@ -0,0 +1,56 @@
+import type { SelectedDocument, SubmittalCategory, SubmittalChecklistItem } from '@/types'
+
+/**
+ * Build the cover-page checklist: every category, checked when at least one
+ * selected document is tagged with it
+ */
+export function buildSubmittalChecklist(
+  categories: SubmittalCategory[],
+  selectedDocuments: SelectedDocument[]
+): SubmittalChecklistItem[] {
+  const taggedIds = new Set(
+    selectedDocuments
+      .filter(doc => doc.selected)
+      .flatMap(doc => doc.document.submittalCategoryIds || [])
+  )
+
+  return categories.map(category => ({
+    categoryId: category.id,
+    label: category.label,
+    group: category.group,
+    checked: taggedIds.has(category.id),
+  }))
+}
+
+/**
+ * Selected documents that are not tagged with any known category and so
+ * would not be reflected on the cover page
+ */
+export function getUntaggedDocuments(
+  categories: SubmittalCategory[],
+  selectedDocuments: SelectedDocument[]
+): SelectedDocument[] {
+  const knownIds = new Set(categories.map(category => category.id))
+  return selectedDocuments.filter(
+    doc => doc.selected && !(doc.document.submittalCategoryIds || []).some(id => knownIds.has(id))
+  )
+}
+
+/**
+ * Group checklist entries under their headings, keeping checklist order.
+ * Top-level entries (no group) are returned as single-item groups.
+ */
+export function groupChecklist<T extends { group: string }>(items: T[]): Array<{ group: string; items: T[] }> {
+  const groups: Array<{ group: string; items: T[] }> = []
+
+  for (const item of items) {
+    const existing = item.group ? groups.find(entry => entry.group === item.group) : undefined
+    if (existing) {
+      existing.items.push(item)
+    } else {
+      groups.push({ group: item.group, items: [item] })
+    }
+  }
+
+  return groups
+}
@@ -0,0 +1,38 @@
+import { generateId } from './index'
+import type { Document, PacketTemplate, SelectedDocument } from '@/types'
+
+/**
+ * Template document ids with the product's required documents appended when
+ * missing. Ids of documents that no longer exist are dropped.
+ */
+export function withRequiredDocuments(documentIds: string[], productDocuments: Document[]): string[] {
+  const known = new Set(productDocuments.map(doc => doc.id))
+  const ids = [...new Set(documentIds)].filter(id => known.has(id))
+  const missingRequired = productDocuments
+    .filter(doc => doc.required && !ids.includes(doc.id))
+    .map(doc => doc.id)
+
+  return [...ids, ...missingRequired]
+}
+
+/**
+ * Build a packet selection from a template, in template order. `missing`
+ * counts template documents that have since been deleted.
+ */
+export function applyTemplate(
+  template: PacketTemplate,
+  productDocuments: Document[]
+): { selectedDocuments: SelectedDocument[]; missing: number } {
+  const byId = new Map(productDocuments.map(doc => [doc.id, doc]))
+  const ids = withRequiredDocuments(template.documentIds, productDocuments)
+
+  return {
+    selectedDocuments: ids.map((id, index) => ({
+      id: generateId(),
+      document: byId.get(id)!,
+      order: index,
+      selected: true,
+    })),
+    missing: template.documentIds.filter(id => !byId.has(id)).length,
+  }
+}
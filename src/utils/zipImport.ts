@@ -0,0 +1,32 @@
+import { unzip } from 'fflate'
+
+/**
+ * Replace ZIP archives in a file list with the PDFs inside them. Folders in
+ * the archive are flattened and anything that is not a PDF is skipped.
+ */
+export async function expandZipFiles(files: File[]): Promise<File[]> {
+  const expanded: File[] = []
+
+  for (const file of files) {
+    if (!/\.zip$/i.test(file.name) && file.type !== 'application/zip' && file.type !== 'application/x-zip-compressed') {
+      expanded.push(file)
+      continue
+    }
+
+    const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+      file.arrayBuffer().then(buffer => {
+        unzip(new Uint8Array(buffer), {
+          // macOS archives carry resource forks such as __MACOSX/._TDS.pdf
+          filter: entry => /\.pdf$/i.test(entry.name) && !/(^|\/)(__MACOSX\/|\._)/.test(entry.name),
+        }, (error, data) => (error ? reject(new Error(`Could not read ${file.name}: ${error.message}`)) : resolve(data)))
+      }, reject)
+    })
+
+    for (const [path, data] of Object.entries(entries)) {
+      const name = path.split('/').pop() || path
+      expanded.push(new File([data as BlobPart], name, { type: 'application/pdf' }))
+    }
+  }
+
+  return expanded
+}
@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_ENABLE_PREVIEW?: string
   readonly VITE_ENABLE_ANALYTICS?: string
   readonly VITE_DEBUG_MODE?: string
+  readonly VITE_WORKER_URL?: string
+  readonly VITE_PDF_ENGINE?: 'auto' | 'worker' | 'local'
 }
 
 interface ImportMeta {
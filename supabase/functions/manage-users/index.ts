@@ -0,0 +1,205 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+/*
+  User administration for the admin panel: list accounts, invite by email,
+  send password resets and deactivate or reactivate accounts.
+
+  The service role key can do anything, so every request is checked first:
+  the caller must send their own session token and have the owner role.
+*/
+
+const ROLES = ["owner", "library_editor", "sales_rep", "read_only"];
+
+// Supabase has no "disabled" flag; a ban of ~100 years is the documented equivalent
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accounts are listed this many at a time
+const USERS_PAGE_SIZE = 1000;
+
+// This function acts with the service role, so it is never offered to every site
+const allowedOrigin = Deno.env.get("ALLOWED_ORIGIN");
+
+const corsHeaders: Record<string, string> = {
+  ...(allowedOrigin ? { "Access-Control-Allow-Origin": allowedOrigin } : {}),
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+
+    if (!serviceRoleKey || !supabaseUrl || !allowedOrigin) {
+      return json({ error: "Missing environment variables" }, 500);
+    }
+
+    const serviceHeaders = {
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "apikey": serviceRoleKey,
+      "Content-Type": "application/json",
+    };
+
+    const request = async (path: string, init: RequestInit = {}) => {
+      const response = await fetch(`${supabaseUrl}${path}`, {
+        ...init,
+        headers: { ...serviceHeaders, ...(init.headers || {}) },
+      });
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : null;
+      if (!response.ok) {
+        throw new HttpError(response.status, data?.msg || data?.message || data?.error_description || "Request failed");
+      }
+      return data;
+    };
+
+    // Who is calling? The token is verified by the auth server, not decoded here.
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (!token) {
+      throw new HttpError(401, "Sign in to manage users");
+    }
+
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: { "Authorization": `Bearer ${token}`, "apikey": serviceRoleKey },
+    });
+    if (!userResponse.ok) {
+      throw new HttpError(401, "Your session has expired; sign in again");
+    }
+    const caller = await userResponse.json();
+
+    const [callerProfile] = await request(`/rest/v1/profiles?id=eq.${caller.id}&select=role`);
+    if (callerProfile?.role !== "owner") {
+      throw new HttpError(403, "Only owners can manage users");
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { action, userId, email, role } = body;
+
+    if (userId !== undefined && (typeof userId !== "string" || !UUID_PATTERN.test(userId))) {
+      throw new HttpError(400, "Invalid user id");
+    }
+    if (role !== undefined && !ROLES.includes(role)) {
+      throw new HttpError(400, "Invalid role");
+    }
+
+    switch (action) {
+      case "list": {
+        const users: Record<string, any>[] = [];
+        for (let page = 1; ; page++) {
+          const { users: batch } = await request(`/auth/v1/admin/users?page=${page}&per_page=${USERS_PAGE_SIZE}`);
+          users.push(...batch);
+          if (batch.length < USERS_PAGE_SIZE) break;
+        }
+
+        const profiles = await request("/rest/v1/profiles?select=id,role");
+        const roles = new Map(profiles.map((profile: { id: string; role: string }) => [profile.id, profile.role]));
+
+        return json({
+          users: users.map((user) => ({
+            id: user.id,
+            email: user.email || "",
+            role: roles.get(user.id) || "read_only",
+            createdAt: user.created_at,
+            lastSignInAt: user.last_sign_in_at || null,
+            invitedAt: user.invited_at || null,
+            deactivated: !!user.banned_until && new Date(user.banned_until) > new Date(),
+          })),
+        });
+      }
+
+      case "invite": {
+        if (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim())) {
+          throw new HttpError(400, "Enter a valid email address");
+        }
+
+        const invited = await request("/auth/v1/invite", {
+          method: "POST",
+          body: JSON.stringify({ email: email.trim().toLowerCase() }),
+        });
+
+        // The signup trigger created a read-only profile
+        if (role && role !== "read_only") {
+          await request(`/rest/v1/profiles?id=eq.${invited.id}`, {
+            method: "PATCH",
+            body: JSON.stringify({ role }),
+          });
+        }
+
+        return json({ message: `Invitation sent to ${invited.email}` }, 201);
+      }
+
+      case "resetPassword": {
+        if (!userId) throw new HttpError(400, "Missing user id");
+        const user = await request(`/auth/v1/admin/users/${userId}`);
+
+        await request("/auth/v1/recover", {
+          method: "POST",
+          body: JSON.stringify({ email: user.email }),
+        });
+
+        return json({ message: `Password reset email sent to ${user.email}` });
+      }
+
+      case "deactivate":
+      case "reactivate": {
+        if (!userId) throw new HttpError(400, "Missing user id");
+        if (userId === caller.id) {
+          throw new HttpError(400, "You cannot deactivate your own account");
+        }
+
+        const user = await request(`/auth/v1/admin/users/${userId}`, {
+          method: "PUT",
+          body: JSON.stringify({ ban_duration: action === "deactivate" ? DEACTIVATED_BAN_DURATION : "none" }),
+        });
+
+        // The ban only stops new sign-ins; end the sessions that are already open
+        if (action === "deactivate") {
+          await request("/rest/v1/rpc/revoke_user_sessions", {
+            method: "POST",
+            body: JSON.stringify({ target_user: userId }),
+          });
+        }
+
+        return json({ message: `${user.email} ${action === "deactivate" ? "deactivated" : "reactivated"}` });
+      }
+
+      default:
+        throw new HttpError(400, "Unknown action");
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return json({ error: error.message }, error.status);
+    }
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
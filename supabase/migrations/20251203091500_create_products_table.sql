@@ -0,0 +1,101 @@
+/*
+  # Create Products Table
+
+  Replaces the hard-coded 'structural-floor' | 'underlayment' product types with
+  a catalog managed from the admin panel.
+
+  1. New Tables
+    - `products`
+      - `id` (text, primary key, slug such as 'structural-floor'; referenced by documents.product_type)
+      - `name` (text, display name shown in the wizard)
+      - `description` (text, shown on the product card and cover page)
+      - `image_url` (text, optional product image)
+      - `available_sizes` (text[], panel thicknesses offered in the project form)
+      - `default_document_ids` (uuid[], documents pre-selected when building a packet)
+      - `sort_order` (integer, display order in the wizard)
+      - `active` (boolean, inactive products are hidden from the wizard)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on products table
+    - Allow public read access (the wizard is public)
+    - Allow authenticated users to manage products (admins only)
+
+  3. Data
+    - Seed the two existing MAXTERRA product lines
+    - Link documents.product_type to products.id
+*/
+
+CREATE TABLE IF NOT EXISTS products (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text DEFAULT '',
+  image_url text DEFAULT '',
+  available_sizes text[] NOT NULL DEFAULT '{}',
+  default_document_ids uuid[] NOT NULL DEFAULT '{}',
+  sort_order integer DEFAULT 0,
+  active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT products_id_slug CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+-- Enable RLS
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read products (needed for the public wizard)
+CREATE POLICY "Public can view products"
+  ON products FOR SELECT
+  TO public
+  USING (true);
+
+-- Allow authenticated users to insert products
+CREATE POLICY "Authenticated users can insert products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to update products
+CREATE POLICY "Authenticated users can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow authenticated users to delete products
+CREATE POLICY "Authenticated users can delete products"
+  ON products FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the existing product lines
+INSERT INTO products (id, name, description, available_sizes, sort_order)
+VALUES
+  (
+    'structural-floor',
+    'Structural Floor Panel',
+    'MAXTERRA® MgO Non-Combustible Structural Floor Panels',
+    ARRAY['3/4-in (20mm)'],
+    1
+  ),
+  (
+    'underlayment',
+    'Underlayment Panel',
+    'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels',
+    ARRAY['1/2-in (12mm)', '5/8-in (16mm)'],
+    2
+  )
+ON CONFLICT (id) DO NOTHING;
+
+-- Every document belongs to a catalog product
+ALTER TABLE documents
+  ADD CONSTRAINT documents_product_type_fkey
+  FOREIGN KEY (product_type) REFERENCES products(id)
+  ON UPDATE CASCADE;
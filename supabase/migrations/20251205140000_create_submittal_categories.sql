@@ -0,0 +1,150 @@
+/*
+  # Create Submittal Categories
+
+  Replaces the fixed submittal-type booleans (tds, fireAssembly01 ... fireAssembly09,
+  testReportIccEsr5194, ...) with categories that documents are explicitly tagged with.
+  The cover-page checklist is computed from the tags of the selected documents.
+
+  1. New Tables
+    - `submittal_categories`
+      - `id` (uuid, primary key)
+      - `label` (text, checklist label, e.g. '03' or 'Technical Data Sheet')
+      - `group_label` (text, optional heading shared by related categories, e.g. 'Fire Assembly')
+      - `sort_order` (integer, checklist order)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `document_submittal_categories`
+      - `document_id` (uuid, references documents)
+      - `category_id` (uuid, references submittal_categories)
+
+  2. Security
+    - Enable RLS on both tables
+    - Allow public read access (needed for PDF generation)
+    - Allow authenticated users to manage categories and tags (admins only)
+
+  3. Data
+    - Seed the categories that used to be hard-coded, including 'Other'; its
+      free-text description was never filled in anywhere in the app, so a
+      document tagged 'Other' now stands in for it
+    - Tag existing documents once using the old name matching, so nothing is lost;
+      from now on tags are edited in the admin panel
+*/
+
+CREATE TABLE IF NOT EXISTS submittal_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL,
+  group_label text NOT NULL DEFAULT '',
+  sort_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (group_label, label)
+);
+
+CREATE TABLE IF NOT EXISTS document_submittal_categories (
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES submittal_categories(id) ON DELETE CASCADE,
+  PRIMARY KEY (document_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS document_submittal_categories_category_idx
+  ON document_submittal_categories (category_id);
+
+-- Enable RLS
+ALTER TABLE submittal_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_submittal_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view submittal categories"
+  ON submittal_categories FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert submittal categories"
+  ON submittal_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update submittal categories"
+  ON submittal_categories FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete submittal categories"
+  ON submittal_categories FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Public can view document submittal categories"
+  ON document_submittal_categories FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert document submittal categories"
+  ON document_submittal_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete document submittal categories"
+  ON document_submittal_categories FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_submittal_categories_updated_at
+  BEFORE UPDATE ON submittal_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the previously hard-coded categories
+INSERT INTO submittal_categories (group_label, label, sort_order)
+VALUES
+  ('', 'Technical Data Sheet', 10),
+  ('', '3-Part Specifications', 20),
+  ('Test Report', 'ICC-ES ESR-5194', 30),
+  ('Test Report', 'ICC-ES ESR-5192', 31),
+  ('Test Report', 'ICC-ES ESL-1645', 32),
+  ('Fire Assembly', '01', 40),
+  ('Fire Assembly', '02', 41),
+  ('Fire Assembly', '03', 42),
+  ('Fire Assembly', '04', 43),
+  ('Fire Assembly', '05', 44),
+  ('Fire Assembly', '06', 45),
+  ('Fire Assembly', '07', 46),
+  ('Fire Assembly', '08', 47),
+  ('Fire Assembly', '09', 48),
+  ('', 'Material Safety Data Sheet', 50),
+  ('', 'LEED Guide', 60),
+  ('', 'Installation Guide', 70),
+  ('', 'Warranty', 80),
+  ('', 'Samples', 90),
+  ('', 'Other', 100)
+ON CONFLICT (group_label, label) DO NOTHING;
+
+-- One-time backfill from the old name matching in PacketGeneration. Names only:
+-- documents.type holds the product here, not the kind of document
+INSERT INTO document_submittal_categories (document_id, category_id)
+SELECT d.id, c.id
+FROM documents d
+JOIN submittal_categories c ON (
+     (c.group_label = '' AND c.label = 'Technical Data Sheet'
+        AND d.name ILIKE '%technical data sheet%')
+  OR (c.group_label = '' AND c.label = '3-Part Specifications'
+        AND d.name ILIKE '%3-part spec%')
+  OR (c.group_label = 'Test Report' AND c.label = 'ICC-ES ESR-5194'
+        AND (d.name ILIKE '%esr-5194%' OR d.name ILIKE '%esr 5194%'))
+  OR (c.group_label = 'Test Report' AND c.label = 'ICC-ES ESR-5192'
+        AND (d.name ILIKE '%esr-5192%' OR d.name ILIKE '%esr 5192%'))
+  OR (c.group_label = 'Test Report' AND c.label = 'ICC-ES ESL-1645'
+        AND (d.name ILIKE '%esl-1645%' OR d.name ILIKE '%esl 1645%' OR d.name ILIKE '%acoustical%'))
+  OR (c.group_label = 'Fire Assembly'
+        AND d.name ILIKE '%fire assembly ' || c.label || '%')
+  OR (c.group_label = '' AND c.label = 'Material Safety Data Sheet'
+        AND (d.name ILIKE '%msds%' OR d.name ILIKE '%material safety%'))
+  OR (c.group_label = '' AND c.label = 'LEED Guide'
+        AND d.name ILIKE '%leed%')
+  OR (c.group_label = '' AND c.label = 'Installation Guide'
+        AND d.name ILIKE '%installation%')
+  OR (c.group_label = '' AND c.label = 'Warranty'
+        AND d.name ILIKE '%warranty%')
+)
+ON CONFLICT DO NOTHING;
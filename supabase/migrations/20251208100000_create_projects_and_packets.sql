@@ -0,0 +1,102 @@
+/*
+  # Create Projects and Packet History
+
+  Moves the wizard state out of a single localStorage blob so users can keep
+  several submittal projects, reopen them on any machine and reissue revised
+  packets for the same job.
+
+  1. New Tables
+    - `projects`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, references auth.users, defaults to the signed-in user)
+      - `name` (text, project name from the form, used for listing)
+      - `product_type` (text, references products)
+      - `form_data` (jsonb, the ProjectFormData entered in the wizard)
+      - `selection` (jsonb, ordered document selection: [{ documentId, order, selected }])
+      - `packet_options` (jsonb, generation settings: TOC, bookmarks, dividers, stamping)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `packets`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `filename` (text, name of the downloaded file)
+      - `size` (bigint, bytes)
+      - `engine` (text, requested generation engine)
+      - `documents` (jsonb, snapshot of the included documents: [{ id, name }])
+      - `generated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only see and manage their own projects
+    - Packet records are visible/insertable through the owning project
+*/
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT '',
+  product_type text REFERENCES products(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  form_data jsonb NOT NULL DEFAULT '{}',
+  selection jsonb NOT NULL DEFAULT '[]',
+  packet_options jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS packets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  filename text NOT NULL,
+  size bigint DEFAULT 0,
+  engine text,
+  documents jsonb NOT NULL DEFAULT '[]',
+  generated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS projects_owner_updated_idx ON projects (owner_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS packets_project_idx ON packets (project_id, generated_at DESC);
+
+-- Enable RLS
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE packets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can insert own projects"
+  ON projects FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update own projects"
+  ON projects FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can delete own projects"
+  ON projects FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can view packets of own projects"
+  ON packets FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM projects WHERE projects.id = packets.project_id AND projects.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can record packets for own projects"
+  ON packets FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM projects WHERE projects.id = packets.project_id AND projects.owner_id = auth.uid()
+  ));
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,56 @@
+/*
+  # Packet Revisions
+
+  Every packet generated for a project is a numbered revision (Rev 0 is the
+  initial submittal) whose PDF is kept, so resubmittals can be traced and the
+  exact file sent to the reviewer can be downloaded again.
+
+  1. Modified Tables
+    - `packets`
+      - `revision` (integer, 0-based, unique per project)
+      - `change_summary` (text, change log line shown in the cover revision table)
+      - `storage_path` (text, path of the stored PDF in the `packets` bucket)
+
+  2. Storage
+    - Private `packets` bucket; files live under `<user id>/<project id>/`
+    - Users can upload, read and delete only files in their own folder
+
+  3. Data
+    - Number existing packet records per project in generation order
+*/
+
+ALTER TABLE packets ADD COLUMN IF NOT EXISTS revision integer;
+ALTER TABLE packets ADD COLUMN IF NOT EXISTS change_summary text NOT NULL DEFAULT '';
+ALTER TABLE packets ADD COLUMN IF NOT EXISTS storage_path text;
+
+-- Number the packets recorded before revisions existed
+UPDATE packets p
+SET revision = numbered.revision
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY project_id ORDER BY generated_at) - 1 AS revision
+  FROM packets
+) numbered
+WHERE p.id = numbered.id AND p.revision IS NULL;
+
+ALTER TABLE packets ALTER COLUMN revision SET NOT NULL;
+ALTER TABLE packets ADD CONSTRAINT packets_project_revision_key UNIQUE (project_id, revision);
+
+-- Stored packet PDFs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('packets', 'packets', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own packet files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'packets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read own packet files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'packets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own packet files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'packets' AND (storage.foldername(name))[1] = auth.uid()::text);
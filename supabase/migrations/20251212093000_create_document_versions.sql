@@ -0,0 +1,72 @@
+/*
+  # Document Versions
+
+  A document can be replaced by uploading a new file as its next version.
+  The document row keeps its id (so saved selections stay valid) and always
+  points at the current file; every uploaded file is kept as a version.
+
+  1. New Tables
+    - `document_versions`
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, references documents, cascades on delete)
+      - `version_number` (integer, 1-based, unique per document)
+      - `filename` (text, original filename of this version)
+      - `file_url` (text, public URL to the file in storage)
+      - `size` (bigint, file size in bytes)
+      - `notes` (text, optional description of what changed)
+      - `created_at` (timestamp)
+      - `created_by` (uuid, uploading user)
+
+  2. Modified Tables
+    - `documents`
+      - `current_version` (integer, version the document currently resolves to)
+
+  3. Security
+    - Enable RLS on document_versions table
+    - Allow public read access (needed for PDF generation of pinned versions)
+    - Allow authenticated users to add and delete versions (admins only)
+
+  4. Data
+    - Record the file of every existing document as its version 1
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS current_version integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  filename text NOT NULL,
+  file_url text NOT NULL,
+  size bigint DEFAULT 0,
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id);
+
+-- Existing files become version 1
+INSERT INTO document_versions (document_id, version_number, filename, file_url, size, created_at, created_by)
+SELECT id, 1, filename, file_url, size, created_at, NULL
+FROM documents
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view document versions"
+  ON document_versions FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert document versions"
+  ON document_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete document versions"
+  ON document_versions FOR DELETE
+  TO authenticated
+  USING (true);
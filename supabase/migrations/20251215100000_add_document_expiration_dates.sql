@@ -0,0 +1,20 @@
+/*
+  # Document Effective and Expiration Dates
+
+  Evaluation reports (ICC-ES ESR/ESL) are issued with an effective date and
+  expire; an expired report must not be sent in a submittal.
+
+  1. Modified Tables
+    - `documents`
+      - `effective_date` (date, optional, issue date of the document)
+      - `expiration_date` (date, optional, last day the document is valid)
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS effective_date date;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS expiration_date date;
+
+ALTER TABLE documents ADD CONSTRAINT documents_expiration_after_effective
+  CHECK (effective_date IS NULL OR expiration_date IS NULL OR expiration_date >= effective_date);
+
+CREATE INDEX IF NOT EXISTS idx_documents_expiration_date ON documents(expiration_date)
+  WHERE expiration_date IS NOT NULL;
@@ -0,0 +1,91 @@
+/*
+  # Document Full-Text Search
+
+  Text is extracted from each PDF when it is uploaded and stored per page,
+  so searches can point to the page a phrase such as "UL L528" appears on.
+
+  1. New Tables
+    - `document_pages`
+      - `document_id` (uuid, references documents, cascades on delete)
+      - `page_number` (integer, 1-based)
+      - `content` (text, extracted page text)
+      - `search_vector` (tsvector, generated from content, GIN indexed)
+
+  2. Modified Tables
+    - `documents`
+      - `text_indexed_at` (timestamp, when the current file's text was stored;
+        null for documents that still need indexing)
+
+  3. Functions
+    - `search_document_pages(search_query, product, max_results)` returns the
+      best matching pages with a highlighted snippet. Matches are wrapped in
+      ⟦ ⟧ so the client can highlight them without rendering HTML.
+
+  4. Security
+    - Enable RLS on document_pages table
+    - Allow signed-in users to read and search page text
+    - Allow authenticated users to manage page text (admins only)
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS text_indexed_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS document_pages (
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  content text NOT NULL DEFAULT '',
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  PRIMARY KEY (document_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_pages_search_vector ON document_pages USING gin(search_vector);
+
+-- Enable RLS
+ALTER TABLE document_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view document pages"
+  ON document_pages FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert document pages"
+  ON document_pages FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete document pages"
+  ON document_pages FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- websearch syntax: quoted phrases ("ASTM E84"), OR, and -excluded words
+CREATE OR REPLACE FUNCTION search_document_pages(
+  search_query text,
+  product text DEFAULT NULL,
+  max_results integer DEFAULT 100
+)
+RETURNS TABLE (document_id uuid, page_number integer, snippet text, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.document_id,
+    p.page_number,
+    ts_headline(
+      'english',
+      p.content,
+      q,
+      'StartSel=⟦, StopSel=⟧, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    ts_rank(p.search_vector, q) AS rank
+  FROM document_pages p
+  JOIN documents d ON d.id = p.document_id
+  CROSS JOIN websearch_to_tsquery('english', search_query) q
+  WHERE p.search_vector @@ q
+    AND (product IS NULL OR d.product_type = product)
+  ORDER BY rank DESC, p.document_id, p.page_number
+  LIMIT max_results;
+$$;
+
+-- Functions are executable by PUBLIC unless revoked
+REVOKE EXECUTE ON FUNCTION search_document_pages(text, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_document_pages(text, text, integer) TO authenticated;
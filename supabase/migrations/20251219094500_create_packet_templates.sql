@@ -0,0 +1,70 @@
+/*
+  # Create Packet Templates
+
+  Named, ordered document selections that can be applied to a packet in one
+  click, e.g. "Standard Multifamily Structural Floor".
+
+  1. New Tables
+    - `packet_templates`
+      - `id` (uuid, primary key)
+      - `name` (text, unique per product)
+      - `description` (text, optional note shown when choosing a template)
+      - `product_type` (text, references products.id; templates are removed with their product)
+      - `document_ids` (uuid[], documents in packet order)
+      - `created_by` (uuid, user who saved the template)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on packet_templates table
+    - Allow public read access (templates are applied in the public wizard)
+    - Allow authenticated users to manage templates (admins only)
+*/
+
+CREATE TABLE IF NOT EXISTS packet_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text DEFAULT '',
+  product_type text NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  document_ids uuid[] NOT NULL DEFAULT '{}',
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT packet_templates_name_per_product UNIQUE (product_type, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_packet_templates_product_type ON packet_templates(product_type);
+
+-- Enable RLS
+ALTER TABLE packet_templates ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read templates (needed for the public wizard)
+CREATE POLICY "Public can view packet templates"
+  ON packet_templates FOR SELECT
+  TO public
+  USING (true);
+
+-- Allow authenticated users to insert templates
+CREATE POLICY "Authenticated users can insert packet templates"
+  ON packet_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to update templates
+CREATE POLICY "Authenticated users can update packet templates"
+  ON packet_templates FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow authenticated users to delete templates
+CREATE POLICY "Authenticated users can delete packet templates"
+  ON packet_templates FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_packet_templates_updated_at
+  BEFORE UPDATE ON packet_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
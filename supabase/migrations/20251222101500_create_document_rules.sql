@@ -0,0 +1,72 @@
+/*
+  # Create Document Rules
+
+  Product knowledge about which documents belong together, checked while a
+  packet is assembled: a UL fire assembly listing requires its TDS, the
+  underlayment and structural-floor installation guides conflict, and so on.
+
+  1. New Tables
+    - `document_rules`
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, references documents; the document the rule is about)
+      - `related_document_id` (uuid, references documents)
+      - `rule_type` (text, 'requires' | 'recommends' | 'conflicts')
+      - `note` (text, optional explanation shown to the user)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on document_rules table
+    - Allow public read access (rules are evaluated in the public wizard)
+    - Allow authenticated users to manage rules (admins only)
+*/
+
+CREATE TABLE IF NOT EXISTS document_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  related_document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  rule_type text NOT NULL,
+  note text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT document_rules_type CHECK (rule_type IN ('requires', 'recommends', 'conflicts')),
+  CONSTRAINT document_rules_not_self CHECK (document_id <> related_document_id),
+  UNIQUE (document_id, related_document_id, rule_type)
+);
+
+CREATE INDEX IF NOT EXISTS document_rules_related_document_idx
+  ON document_rules (related_document_id);
+
+-- Enable RLS
+ALTER TABLE document_rules ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read rules (needed for the public wizard)
+CREATE POLICY "Public can view document rules"
+  ON document_rules FOR SELECT
+  TO public
+  USING (true);
+
+-- Allow authenticated users to insert rules
+CREATE POLICY "Authenticated users can insert document rules"
+  ON document_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to update rules
+CREATE POLICY "Authenticated users can update document rules"
+  ON document_rules FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow authenticated users to delete rules
+CREATE POLICY "Authenticated users can delete document rules"
+  ON document_rules FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_document_rules_updated_at
+  BEFORE UPDATE ON document_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
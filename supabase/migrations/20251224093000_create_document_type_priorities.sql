@@ -0,0 +1,74 @@
+/*
+  # Create Document Type Priorities
+
+  The order document types appear in when a packet is auto-arranged
+  (Technical Data Sheet first, then Evaluation Report, ...). Editable by admins;
+  types without a row fall back to the defaults built into the app.
+
+  1. New Tables
+    - `document_type_priorities`
+      - `document_type` (text, primary key, matches documents.doc_type, e.g. 'TDS')
+      - `priority` (integer, lower comes first)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on document_type_priorities table
+    - Allow public read access (auto-arrange runs in the public wizard)
+    - Allow authenticated users to manage priorities (admins only)
+
+  3. Data
+    - Seed the priorities that used to be hard-coded
+*/
+
+CREATE TABLE IF NOT EXISTS document_type_priorities (
+  document_type text PRIMARY KEY,
+  priority integer NOT NULL DEFAULT 99,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE document_type_priorities ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read priorities (needed for the public wizard)
+CREATE POLICY "Public can view document type priorities"
+  ON document_type_priorities FOR SELECT
+  TO public
+  USING (true);
+
+-- Allow authenticated users to insert priorities
+CREATE POLICY "Authenticated users can insert document type priorities"
+  ON document_type_priorities FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to update priorities
+CREATE POLICY "Authenticated users can update document type priorities"
+  ON document_type_priorities FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow authenticated users to delete priorities
+CREATE POLICY "Authenticated users can delete document type priorities"
+  ON document_type_priorities FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Add trigger to update updated_at
+CREATE TRIGGER update_document_type_priorities_updated_at
+  BEFORE UPDATE ON document_type_priorities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the existing priorities
+INSERT INTO document_type_priorities (document_type, priority)
+VALUES
+  ('TDS', 1),
+  ('ESR', 2),
+  ('Installation', 3),
+  ('warranty', 4),
+  ('PartSpec', 5),
+  ('LEED', 6),
+  ('Acoustic', 7),
+  ('MSDS', 8)
+ON CONFLICT (document_type) DO NOTHING;
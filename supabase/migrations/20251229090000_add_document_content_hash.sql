@@ -0,0 +1,20 @@
+/*
+  # Add Document Content Hash
+
+  A SHA-256 fingerprint of each document's current file, so uploading a PDF
+  that is already in the library (under any filename) can be caught.
+
+  1. Changes
+    - `documents.content_hash` (text, hex SHA-256 of the current file; null until computed)
+    - `document_versions.content_hash` (text, hex SHA-256 of that version's file)
+    - Index on documents.content_hash for the duplicate lookup
+
+  2. Notes
+    - Existing rows are fingerprinted from the admin panel, since the hash
+      needs the file contents
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents(content_hash);
@@ -0,0 +1,61 @@
+/*
+  # Store Document Type Separately From Product Type
+
+  `documents.type` was written with the product a document belongs to, which
+  `product_type` already records, so the document type (TDS, ESR, MSDS, ...)
+  was lost. This adds a `doc_type` column limited to the document types the
+  app knows, backfills it and drops the overloaded `type` column.
+
+  1. Modified Tables
+    - `documents`
+      - `doc_type` (text, required, one of TDS, ESR, MSDS, LEED, Installation,
+        warranty, Acoustic, PartSpec)
+      - `type` removed
+    - `document_type_priorities.document_type` now matches `documents.doc_type`
+
+  2. Data
+    - Rows whose `type` already holds a document type keep it
+    - Other rows get a type detected from the filename, using the same patterns
+      as the upload review (first match wins, Technical Data Sheet otherwise)
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS doc_type text;
+
+UPDATE documents
+SET doc_type = CASE lower(type)
+  WHEN 'tds' THEN 'TDS'
+  WHEN 'esr' THEN 'ESR'
+  WHEN 'msds' THEN 'MSDS'
+  WHEN 'leed' THEN 'LEED'
+  WHEN 'installation' THEN 'Installation'
+  WHEN 'warranty' THEN 'warranty'
+  WHEN 'acoustic' THEN 'Acoustic'
+  WHEN 'partspec' THEN 'PartSpec'
+END
+WHERE doc_type IS NULL;
+
+UPDATE documents d
+SET doc_type = CASE
+  WHEN f.name ~* '\y(m?sds|safety data sheet)\y' THEN 'MSDS'
+  WHEN f.name ~* '\y(esr-?\d+|evaluation report|icc-es report)\y' THEN 'ESR'
+  WHEN f.name ~* '\y(esl-?\d+|acoustic(al)?|sound transmission|impact insulation|stc|iic)\y' THEN 'Acoustic'
+  WHEN f.name ~* '\ywarrant(y|ies)\y' THEN 'warranty'
+  WHEN f.name ~* '\yleed\y' THEN 'LEED'
+  WHEN f.name ~* '\y(installation|install(ing)? guide|fastening schedule)\y' THEN 'Installation'
+  WHEN f.name ~* '\y(3-part|three-part|part 1\s*-?\s*general|section \d{2} ?\d{2} ?\d{2})\y' THEN 'PartSpec'
+  ELSE 'TDS'
+END
+FROM (
+  -- Underscores separate words in filenames
+  SELECT id, replace(filename, '_', ' ') AS name FROM documents
+) f
+WHERE d.id = f.id AND d.doc_type IS NULL;
+
+ALTER TABLE documents ALTER COLUMN doc_type SET NOT NULL;
+
+ALTER TABLE documents ADD CONSTRAINT documents_doc_type_check
+  CHECK (doc_type IN ('TDS', 'ESR', 'MSDS', 'LEED', 'Installation', 'warranty', 'Acoustic', 'PartSpec'));
+
+CREATE INDEX IF NOT EXISTS idx_documents_doc_type ON documents(doc_type);
+
+ALTER TABLE documents DROP COLUMN IF EXISTS type;
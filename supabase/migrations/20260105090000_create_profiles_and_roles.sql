@@ -0,0 +1,297 @@
+/*
+  # Role-Based Access Control
+
+  Until now every signed-in user could change the whole library. Each user
+  now has a profile with one role:
+    - owner: everything, including assigning roles
+    - library_editor: manages documents, products, categories, rules and type order
+    - sales_rep: builds packets and manages packet templates
+    - read_only: can sign in and look, but change nothing shared
+
+  Projects and their packets stay private to the user who made them, whatever
+  their role.
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users, cascades on delete)
+      - `email` (text, copied from auth.users for display)
+      - `role` (text, one of owner, library_editor, sales_rep, read_only)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `has_role(VARIADIC roles text[])` - whether the current user has one of
+      the roles; used by the policies below
+    - `handle_new_user()` - trigger giving every new account a read_only profile
+
+  3. Security
+    - Enable RLS on profiles table
+    - Users can view their own profile; owners can view all profiles
+    - Only owners can change roles, and not their own (so the last owner
+      can't lock themselves out)
+    - Insert/update/delete on library tables and the `documents` storage
+      bucket is limited to owners and library editors (packet templates
+      also to sales reps, who can only change their own), replacing the "any authenticated user" policies;
+      every earlier write policy on the bucket is dropped
+
+  4. Data
+    - Every existing account gets a read_only profile, except the oldest
+      (the seeded admin), which becomes the owner
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL DEFAULT '',
+  role text NOT NULL DEFAULT 'read_only'
+    CHECK (role IN ('owner', 'library_editor', 'sales_rep', 'read_only')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Security definer so policies can read the caller's role without tripping profiles' own RLS
+CREATE OR REPLACE FUNCTION has_role(VARIADIC roles text[])
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = ANY(roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (NEW.id, COALESCE(NEW.email, ''))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing accounts
+INSERT INTO profiles (id, email, created_at)
+SELECT id, COALESCE(email, ''), created_at FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE profiles SET role = 'owner'
+WHERE id = (SELECT id FROM auth.users ORDER BY created_at LIMIT 1);
+
+-- Enable RLS
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own profile"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR has_role('owner'));
+
+CREATE POLICY "Owners can change other users' roles"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (has_role('owner') AND id <> auth.uid())
+  WITH CHECK (has_role('owner') AND id <> auth.uid());
+
+-- Library tables: owners and library editors
+
+DROP POLICY IF EXISTS "Authenticated users can insert documents" ON documents;
+DROP POLICY IF EXISTS "Authenticated users can update documents" ON documents;
+DROP POLICY IF EXISTS "Authenticated users can delete documents" ON documents;
+
+CREATE POLICY "Library editors can insert documents"
+  ON documents FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update documents"
+  ON documents FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'))
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete documents"
+  ON documents FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can update products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can delete products" ON products;
+
+CREATE POLICY "Library editors can insert products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'))
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete products"
+  ON products FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert submittal categories" ON submittal_categories;
+DROP POLICY IF EXISTS "Authenticated users can update submittal categories" ON submittal_categories;
+DROP POLICY IF EXISTS "Authenticated users can delete submittal categories" ON submittal_categories;
+
+CREATE POLICY "Library editors can insert submittal categories"
+  ON submittal_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update submittal categories"
+  ON submittal_categories FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'))
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete submittal categories"
+  ON submittal_categories FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert document submittal categories" ON document_submittal_categories;
+DROP POLICY IF EXISTS "Authenticated users can delete document submittal categories" ON document_submittal_categories;
+
+CREATE POLICY "Library editors can insert document submittal categories"
+  ON document_submittal_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document submittal categories"
+  ON document_submittal_categories FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert document versions" ON document_versions;
+DROP POLICY IF EXISTS "Authenticated users can delete document versions" ON document_versions;
+
+CREATE POLICY "Library editors can insert document versions"
+  ON document_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document versions"
+  ON document_versions FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert document pages" ON document_pages;
+DROP POLICY IF EXISTS "Authenticated users can delete document pages" ON document_pages;
+
+CREATE POLICY "Library editors can insert document pages"
+  ON document_pages FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document pages"
+  ON document_pages FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert document rules" ON document_rules;
+DROP POLICY IF EXISTS "Authenticated users can update document rules" ON document_rules;
+DROP POLICY IF EXISTS "Authenticated users can delete document rules" ON document_rules;
+
+CREATE POLICY "Library editors can insert document rules"
+  ON document_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update document rules"
+  ON document_rules FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'))
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document rules"
+  ON document_rules FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+DROP POLICY IF EXISTS "Authenticated users can insert document type priorities" ON document_type_priorities;
+DROP POLICY IF EXISTS "Authenticated users can update document type priorities" ON document_type_priorities;
+DROP POLICY IF EXISTS "Authenticated users can delete document type priorities" ON document_type_priorities;
+
+CREATE POLICY "Library editors can insert document type priorities"
+  ON document_type_priorities FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update document type priorities"
+  ON document_type_priorities FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'))
+  WITH CHECK (has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document type priorities"
+  ON document_type_priorities FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+-- Packet templates: also sales reps
+
+DROP POLICY IF EXISTS "Authenticated users can insert packet templates" ON packet_templates;
+DROP POLICY IF EXISTS "Authenticated users can update packet templates" ON packet_templates;
+DROP POLICY IF EXISTS "Authenticated users can delete packet templates" ON packet_templates;
+
+CREATE POLICY "Template editors can insert packet templates"
+  ON packet_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('owner', 'library_editor', 'sales_rep'));
+
+-- Sales reps may only change the templates they saved themselves
+CREATE POLICY "Template editors can update packet templates"
+  ON packet_templates FOR UPDATE
+  TO authenticated
+  USING (has_role('owner', 'library_editor') OR (has_role('sales_rep') AND created_by = auth.uid()))
+  WITH CHECK (has_role('owner', 'library_editor') OR (has_role('sales_rep') AND created_by = auth.uid()));
+
+CREATE POLICY "Template editors can delete packet templates"
+  ON packet_templates FOR DELETE
+  TO authenticated
+  USING (has_role('owner', 'library_editor') OR (has_role('sales_rep') AND created_by = auth.uid()));
+
+-- Document files. The bucket was set up by hand; policies are permissive and
+-- combine with OR, so any write policy that came with it would still let every
+-- signed-in user change files
+DO $$
+DECLARE
+  existing record;
+BEGIN
+  FOR existing IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects'
+      AND cmd IN ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+      AND (COALESCE(qual, '') || COALESCE(with_check, '')) LIKE '%''documents''%'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', existing.policyname);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Library editors can upload document files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'documents' AND has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can update document files"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'documents' AND has_role('owner', 'library_editor'))
+  WITH CHECK (bucket_id = 'documents' AND has_role('owner', 'library_editor'));
+
+CREATE POLICY "Library editors can delete document files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'documents' AND has_role('owner', 'library_editor'));
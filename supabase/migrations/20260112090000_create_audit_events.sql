@@ -0,0 +1,251 @@
+/*
+  # Create Audit Events
+
+  An append-only record of who changed the document library and who generated
+  which packet, so QA can trace which document version went to which customer.
+
+  1. New Tables
+    - `audit_events`
+      - `id` (uuid, primary key)
+      - `occurred_at` (timestamp, set by the database)
+      - `actor_id` (uuid, signed-in user; deliberately not a foreign key so
+        deleting a user keeps their history)
+      - `actor_email` (text, email at the time of the event)
+      - `action` (text, e.g. 'document.updated', 'packet.generated')
+      - `target_type` (text, 'document' or 'packet')
+      - `target_id` (text, id of the changed document or the project)
+      - `target_name` (text, name at the time of the event)
+      - `before` (jsonb, row before the change)
+      - `after` (jsonb, row after the change, or the packet details)
+
+  2. Triggers
+    - Library changes are recorded by triggers on documents, document_versions
+      and document_submittal_categories, so no code path can skip them
+    - The actor and time are always filled in by the database
+    - Updates and deletes of audit events are rejected
+
+  3. Functions
+    - `record_packet_generation(...)` - the only way to write a packet event.
+      Signed-in users only; the project must be theirs and every document
+      version must exist. Document names come from the library, not the caller.
+
+  4. Security
+    - Enable RLS on audit_events table
+    - Owners and library editors can read the log
+    - Nothing can be inserted directly
+*/
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_email text NOT NULL DEFAULT '',
+  action text NOT NULL,
+  target_type text NOT NULL,
+  target_id text,
+  target_name text NOT NULL DEFAULT '',
+  before jsonb,
+  after jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_type, target_id);
+
+-- Who and when come from the session, never from the client
+CREATE OR REPLACE FUNCTION set_audit_actor()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.occurred_at := now();
+  NEW.actor_id := auth.uid();
+  NEW.actor_email := COALESCE((SELECT email FROM auth.users WHERE id = auth.uid()), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_audit_events_actor
+  BEFORE INSERT ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION set_audit_actor();
+
+CREATE OR REPLACE FUNCTION prevent_audit_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit events cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_changes();
+
+-- Documents: created, edited, deleted
+CREATE OR REPLACE FUNCTION audit_document_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Kept up to date by the app itself; changing only these is not an edit
+  bookkeeping text[] := ARRAY['updated_at', 'text_indexed_at', 'content_hash'];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO audit_events (action, target_type, target_id, target_name, after)
+    VALUES ('document.created', 'document', NEW.id::text, NEW.name, to_jsonb(NEW));
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF (to_jsonb(OLD) - bookkeeping) = (to_jsonb(NEW) - bookkeeping) THEN
+      RETURN NEW;
+    END IF;
+    INSERT INTO audit_events (action, target_type, target_id, target_name, before, after)
+    VALUES ('document.updated', 'document', NEW.id::text, NEW.name, to_jsonb(OLD), to_jsonb(NEW));
+  ELSE
+    INSERT INTO audit_events (action, target_type, target_id, target_name, before)
+    VALUES ('document.deleted', 'document', OLD.id::text, OLD.name, to_jsonb(OLD));
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_documents
+  AFTER INSERT OR UPDATE OR DELETE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_document_change();
+
+-- Document versions: every uploaded file
+CREATE OR REPLACE FUNCTION audit_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO audit_events (action, target_type, target_id, target_name, after)
+  VALUES (
+    'document.version_added',
+    'document',
+    NEW.document_id::text,
+    COALESCE((SELECT name FROM documents WHERE id = NEW.document_id), ''),
+    to_jsonb(NEW)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_document_versions
+  AFTER INSERT ON document_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_document_version();
+
+-- Submittal category tags
+CREATE OR REPLACE FUNCTION audit_document_category()
+RETURNS TRIGGER AS $$
+DECLARE
+  tag document_submittal_categories;
+  document_name text;
+  category jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    tag := NEW;
+  ELSE
+    tag := OLD;
+  END IF;
+
+  SELECT name INTO document_name FROM documents WHERE id = tag.document_id;
+  SELECT to_jsonb(c) INTO category FROM submittal_categories c WHERE id = tag.category_id;
+
+  -- Tags removed because their document or category was deleted are covered by that event
+  IF document_name IS NULL OR category IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_events (action, target_type, target_id, target_name, before, after)
+  VALUES (
+    CASE WHEN TG_OP = 'INSERT' THEN 'document.category_added' ELSE 'document.category_removed' END,
+    'document',
+    tag.document_id::text,
+    document_name,
+    CASE WHEN TG_OP = 'DELETE' THEN category END,
+    CASE WHEN TG_OP = 'INSERT' THEN category END
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_document_submittal_categories
+  AFTER INSERT OR DELETE ON document_submittal_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_document_category();
+
+-- Enable RLS
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Library editors can view audit events"
+  ON audit_events FOR SELECT
+  TO authenticated
+  USING (has_role('owner', 'library_editor'));
+
+-- Packet generations: checked here, since the client could otherwise write anything
+CREATE OR REPLACE FUNCTION record_packet_generation(
+  project uuid,
+  project_name text,
+  submitted_to text,
+  prepared_by text,
+  packet_filename text,
+  packet_revision integer,
+  engine text,
+  packet_documents jsonb
+)
+RETURNS void AS $$
+DECLARE
+  included jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record packet generations';
+  END IF;
+
+  IF project IS NOT NULL AND NOT EXISTS (SELECT 1 FROM projects WHERE id = project AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF engine IS NULL OR engine NOT IN ('auto', 'worker', 'local') THEN
+    RAISE EXCEPTION 'Unknown packet engine %', engine;
+  END IF;
+
+  IF jsonb_typeof(packet_documents) <> 'array' OR jsonb_array_length(packet_documents) = 0 THEN
+    RAISE EXCEPTION 'A packet needs at least one document';
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_strip_nulls(jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'version', v.version_number,
+      'pageRange', left(item->>'pageRange', 200)
+    ))
+    ORDER BY ord
+  )
+  INTO included
+  FROM jsonb_array_elements(packet_documents) WITH ORDINALITY AS t(item, ord)
+  JOIN documents d ON d.id = (item->>'id')::uuid
+  JOIN document_versions v ON v.document_id = d.id AND v.version_number = (item->>'version')::integer;
+
+  IF included IS NULL OR jsonb_array_length(included) <> jsonb_array_length(packet_documents) THEN
+    RAISE EXCEPTION 'Every packet document must be an existing document version';
+  END IF;
+
+  INSERT INTO audit_events (action, target_type, target_id, target_name, after)
+  VALUES (
+    'packet.generated',
+    'packet',
+    project::text,
+    left(COALESCE(project_name, ''), 200),
+    jsonb_strip_nulls(jsonb_build_object(
+      'projectId', project,
+      'projectName', left(COALESCE(project_name, ''), 200),
+      'submittedTo', left(COALESCE(submitted_to, ''), 200),
+      'preparedBy', left(COALESCE(prepared_by, ''), 200),
+      'filename', left(COALESCE(packet_filename, ''), 300),
+      'revision', packet_revision,
+      'engine', engine,
+      'documents', included
+    ))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_packet_generation(uuid, text, text, text, text, integer, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_packet_generation(uuid, text, text, text, text, integer, text, jsonb) TO authenticated;
@@ -0,0 +1,78 @@
+/*
+  # Make Documents Bucket Private
+
+  Some test reports are confidential before publication, so document files
+  must not be reachable through a public URL. Rows now store the path of the
+  file in the bucket and the app asks for a short-lived signed URL whenever
+  it reads a file.
+
+  1. Changes
+    - `documents.file_url` renamed to `storage_path` (text, path in the
+      `documents` bucket, e.g. 'underlayment/1733752800000-abc123def.pdf')
+    - `document_versions.file_url` renamed to `storage_path`
+    - Existing public URLs are reduced to their path
+
+  2. Security
+    - The `documents` bucket is no longer public, and any earlier read
+      policy on it is dropped
+    - Signed-in users of any role can read document files (and therefore
+      create signed URLs); anonymous visitors can still see the library
+      but cannot open the files
+    - The extracted page text and `search_document_pages` are limited to
+      signed-in users as well, so the text of a file is no easier to reach
+      than the file itself
+*/
+
+-- 1. Changes
+ALTER TABLE documents RENAME COLUMN file_url TO storage_path;
+ALTER TABLE document_versions RENAME COLUMN file_url TO storage_path;
+
+-- Rewriting the column is not an edit of the document
+ALTER TABLE documents DISABLE TRIGGER audit_documents;
+
+UPDATE documents
+SET storage_path = regexp_replace(storage_path, '^.*/storage/v1/object/public/documents/', '')
+WHERE storage_path LIKE '%/storage/v1/object/public/documents/%';
+
+ALTER TABLE documents ENABLE TRIGGER audit_documents;
+
+UPDATE document_versions
+SET storage_path = regexp_replace(storage_path, '^.*/storage/v1/object/public/documents/', '')
+WHERE storage_path LIKE '%/storage/v1/object/public/documents/%';
+
+-- 2. Security
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- The bucket was set up by hand; drop any read policy that came with it,
+-- since one granted to anon would keep the files downloadable
+DO $$
+DECLARE
+  existing record;
+BEGIN
+  FOR existing IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND cmd = 'SELECT'
+      AND qual LIKE '%''documents''%'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', existing.policyname);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Signed-in users can read document files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'documents');
+
+DROP POLICY IF EXISTS "Public can view document pages" ON document_pages;
+DROP POLICY IF EXISTS "Signed-in users can view document pages" ON document_pages;
+
+CREATE POLICY "Signed-in users can view document pages"
+  ON document_pages FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Functions are executable by PUBLIC unless revoked
+REVOKE EXECUTE ON FUNCTION search_document_pages(text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_document_pages(text, text, integer) TO authenticated;
@@ -0,0 +1,26 @@
+/*
+  # Revoke User Sessions
+
+  Deactivating an account bans it from signing in again, but sessions that
+  are already open keep refreshing their tokens. The `manage-users` function
+  calls this when an owner deactivates someone.
+
+  1. Functions
+    - `revoke_user_sessions(target_user uuid)` - deletes the user's sessions,
+      and with them their refresh tokens. An access token already issued
+      stays valid until it expires (one hour by default).
+
+  2. Security
+    - Only the service role can call it
+*/
+
+CREATE OR REPLACE FUNCTION revoke_user_sessions(target_user uuid)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM auth.refresh_tokens WHERE user_id = target_user::text;
+  DELETE FROM auth.sessions WHERE user_id = target_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION revoke_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_user_sessions(uuid) TO service_role;